@@ -1,5 +1,6 @@
 import { copyFile, mkdir, rm, writeFile } from "node:fs/promises";
 import path from "node:path";
+import { DEFAULT_CONFIG } from "../src/config.ts";
 
 const root = process.cwd();
 const distDir = path.join(root, "dist");
@@ -19,9 +20,44 @@ echo  CardX Recruitment Combine Tool
 echo ================================
 echo Input folder : .\\input
 echo Output file  : .\\output\\recruitment-tracking.xlsx
+echo Dashboard    : .\\output\\recruitment-dashboard.html
 echo.
 
-".\\${exeName}" --in ".\\input" --out ".\\output\\recruitment-tracking.xlsx"
+".\\${exeName}" combine --in ".\\input" --out ".\\output\\recruitment-tracking.xlsx" --dashboard
+
+echo.
+echo Finished. Press any key to close.
+pause >nul
+endlocal
+`;
+
+const rollbackBat = `@echo off
+setlocal
+cd /d "%~dp0"
+
+echo ================================
+echo  CardX Recruitment - Rollback
+echo ================================
+echo.
+
+".\\${exeName}" rollback --out ".\\output\\recruitment-tracking.xlsx"
+
+echo.
+echo Finished. Press any key to close.
+pause >nul
+endlocal
+`;
+
+const unlockBat = `@echo off
+setlocal
+cd /d "%~dp0"
+
+echo ================================
+echo  CardX Recruitment - Unlock
+echo ================================
+echo.
+
+".\\${exeName}" unlock --out ".\\output\\recruitment-tracking.xlsx"
 
 echo.
 echo Finished. Press any key to close.
@@ -37,6 +73,29 @@ How to use:
    - JR file must include column: รหัสใบร้องขอ/ID or JR No.
 2) Double-click "run.bat"
 3) Output will be generated at "output\\recruitment-tracking.xlsx"
+   and the dashboard at "output\\recruitment-dashboard.html"
+
+Other commands (run from a command prompt in this folder):
+- rec-cx-combine.exe --help      list all commands and options
+- rec-cx-combine.exe validate    check the input files without writing
+- rec-cx-combine.exe report      preview the changes as a diff report
+- rec-cx-combine.exe dashboard   rebuild the dashboard only
+
+Settings (config.json):
+- Edit "config.json" next to the exe to change sheet names, header order,
+  header colors, Group / Channel / Turndown Reason dropdowns and SLA rules.
+- Keys you remove fall back to the built-in defaults.
+
+Backups / rollback:
+- Before each run the previous output is copied to "output\\backups"
+  (the newest 30 are kept, see "backupRetention" in config.json).
+- Double-click "rollback.bat" to list the backups and restore one.
+
+Lock:
+- A run writes "output\\recruitment-tracking.xlsx.lock" (user, computer, PID).
+  Locks without a heartbeat for 10 minutes are taken over automatically
+  (see "lockStaleMinutes" in config.json).
+- If a run crashed and others are stuck waiting, double-click "unlock.bat".
 `;
 
 async function main() {
@@ -46,7 +105,14 @@ async function main() {
 
   await copyFile(exePath, path.join(outDir, exeName));
   await writeFile(path.join(outDir, "run.bat"), runBat, "utf8");
+  await writeFile(path.join(outDir, "rollback.bat"), rollbackBat, "utf8");
+  await writeFile(path.join(outDir, "unlock.bat"), unlockBat, "utf8");
   await writeFile(path.join(outDir, "README.txt"), readme, "utf8");
+  await writeFile(
+    path.join(outDir, "config.json"),
+    JSON.stringify(DEFAULT_CONFIG, null, 2) + "\n",
+    "utf8",
+  );
 
   console.log("One-click package created:");
   console.log(outDir);
@@ -0,0 +1,369 @@
+import fs from "node:fs";
+import path from "node:path";
+
+// =========================
+// CONFIG FILE (config.json)
+// =========================
+// ค่าใน config.json จะ override ค่า default ด้านล่างเป็นรายหัวข้อ
+// ลำดับการค้นหา: --config <file> -> ./config.json (cwd) -> config.json ข้าง exe
+
+export type SlaRule = {
+  days: number;
+  // ตรงเงื่อนไขข้อใดข้อหนึ่งก็ใช้ days ของ rule นี้ (เช็คตามลำดับ)
+  positionContains?: string[];
+  levels?: string[];
+};
+
+// candidate ใน candidate_master ที่ไม่อยู่ในไฟล์ export ล่าสุด
+// ignore = ไม่ทำอะไร, flag = ใส่วันที่ในคอลัมน์ "Not in source since",
+// archive = ย้ายแถวไปชีต Candidate_Archive
+export type MissingCandidatePolicy = "ignore" | "flag" | "archive";
+
+const MISSING_CANDIDATE_POLICIES: MissingCandidatePolicy[] = [
+  "ignore",
+  "flag",
+  "archive",
+];
+
+export type CombineConfig = {
+  sheets: { candidate: string; jr: string };
+  candidateHeaderOrder: string[];
+  headerColors: { base: string; input: string; lookup: string };
+  groupList: string[];
+  channelList: string[];
+  turndownReasonList: string[];
+  slaRules: SlaRule[];
+  slaDefaultDays: number;
+  // คอลัมน์ที่ผู้ใช้เพิ่มเองต่อท้าย candidate_master ที่จะเก็บไว้ ("*" = ทุกคอลัมน์)
+  extraColumns: string[];
+  // จำนวนไฟล์ backup ใน output/backups ที่เก็บไว้ (0 = ไม่ทำ backup)
+  backupRetention: number;
+  // สถานะ JR ที่ถือว่าปิดแล้ว (เทียบแบบ "มีคำนี้อยู่" ไม่สนตัวพิมพ์) ใช้ใน Data_Issues
+  closedJrStatuses: string[];
+  missingCandidatePolicy: MissingCandidatePolicy;
+  // lock ที่ไม่มี heartbeat เกินกี่นาทีถือว่าค้าง (ยึดต่อได้)
+  lockStaleMinutes: number;
+  // ชื่อหัวตารางใน export -> ชื่อคอลัมน์มาตรฐาน (ไม่สนตัวพิมพ์/ช่องว่าง)
+  headerAliases: Record<string, string>;
+};
+
+export const DEFAULT_CONFIG: CombineConfig = {
+  sheets: { candidate: "candidate_master", jr: "JR_Detail" },
+  candidateHeaderOrder: [
+    "คำนำหน้าชื่อ",
+    "ชื่อ (ไทย)",
+    "สกุล (ไทย)",
+    "ชื่อ (อังกฤษ)",
+    "สกุล (อังกฤษ)",
+    "ชื่อเล่น",
+    "รหัสบัตรประชาชน",
+    "วันเกิด",
+    "เบอร์ติดต่อ",
+    "email",
+    "JR No.",
+    "หน่วยธุรกิจ/BU",
+    "ตำแหน่งที่ขอรับ/Requested Position",
+    "ประเภทการจ้าง/Employment Category",
+    "ระดับ/Level",
+    "ผู้รับผิดชอบ/Manage by",
+    "สถานะล่าสุด/Latest status",
+    "วันที่อัพเดทสถานะล่าสุด/Date Latest status",
+    "สร้างโดย/Created by",
+    "วันที่สร้าง/Date",
+    "Candidate Status",
+    "Shortlist",
+    "1st round interview",
+    "2nd round interview",
+    "Final round interview",
+    "Offering เสนอผลประโยชน์",
+    "Hiring",
+    "Onboarding",
+    "Channel",
+    "Turndown Reason",
+    "Turndown Details",
+    "Turndown Date",
+    "Resume",
+    "SLA by Level",
+    "Day to Shortlist",
+    "Day to Interview",
+    "Day to Offering",
+    "Day to Hiring",
+    "Day to Onboarding",
+    "Group",
+  ],
+  headerColors: {
+    base: "FF1CBBD8",
+    input: "FF5387D9",
+    lookup: "FFFED243",
+  },
+  groupList: [
+    "Technology",
+    "Risk Management",
+    "Credit Risk",
+    "Model Data Risk and Special Project",
+    "Operations",
+    "Marketing",
+    "Legal",
+    "Business and Channel",
+    "Finance and Strategy",
+    "People",
+    "Innovation and Transformation",
+    "CEO Office",
+    "AkulakuX",
+    "Collection",
+    "CardX AMC",
+  ],
+  channelList: [
+    "Jobthai",
+    "JobBkk",
+    "JobsDB",
+    "LinkedIN",
+    "Facebook",
+    "Referral",
+    "Agency",
+    "กรมจัดหางาน",
+    "Job Fair",
+    "Jobfinfin",
+    "Other",
+  ],
+  turndownReasonList: [
+    "Get better offer จากบริษัทอื่น",
+    "Counter offer จากบริษัทเดิม",
+    "Pay below expectation",
+    "Career concern / Career Path",
+    "Company brand",
+    "100% WFH or Hybrid Working",
+    "Health",
+    "Location",
+    "ศึกษาต่อ",
+    "Policy SCBX Group",
+    "Other",
+  ],
+  slaRules: [
+    {
+      positionContains: ["Collector", "Underwriting", "Contact Center"],
+      days: 30,
+    },
+    { levels: ["Chief", "Head of"], days: 90 },
+    { levels: ["Team lead", "Senior Professional", "Expert"], days: 60 },
+    { levels: ["Professional", "Support"], days: 45 },
+  ],
+  slaDefaultDays: 0,
+  extraColumns: ["*"],
+  backupRetention: 30,
+  closedJrStatuses: ["Closed", "Cancel", "ปิด", "ยกเลิก"],
+  missingCandidatePolicy: "flag",
+  lockStaleMinutes: 10,
+  headerAliases: {
+    // Candidate
+    Title: "คำนำหน้าชื่อ",
+    "First Name (TH)": "ชื่อ (ไทย)",
+    "Last Name (TH)": "สกุล (ไทย)",
+    "First Name (EN)": "ชื่อ (อังกฤษ)",
+    "Last Name (EN)": "สกุล (อังกฤษ)",
+    Nickname: "ชื่อเล่น",
+    "National ID": "รหัสบัตรประชาชน",
+    "ID Card No.": "รหัสบัตรประชาชน",
+    "Date of Birth": "วันเกิด",
+    Birthday: "วันเกิด",
+    Mobile: "เบอร์ติดต่อ",
+    Phone: "เบอร์ติดต่อ",
+    Email: "email",
+    "E-mail": "email",
+    // JR
+    "Requisition ID": "รหัสใบร้องขอ/ID",
+    "JR ID": "รหัสใบร้องขอ/ID",
+    "Business Unit": "หน่วยธุรกิจ/BU",
+    "Requested Position": "ตำแหน่งที่ขอรับ/Requested Position",
+    "Employment Category": "ประเภทการจ้าง/Employment Category",
+    Level: "ระดับ/Level",
+    "Manage by": "ผู้รับผิดชอบ/Manage by",
+    "Latest status": "สถานะล่าสุด/Latest status",
+    "Date Latest status": "วันที่อัพเดทสถานะล่าสุด/Date Latest status",
+    "Created by": "สร้างโดย/Created by",
+    "Created Date": "วันที่สร้าง/Date",
+  },
+};
+
+const CONFIG_FILE_NAME = "config.json";
+
+export function resolveConfigPath(explicit?: string) {
+  if (explicit) return path.resolve(explicit);
+  const candidates = [
+    path.join(process.cwd(), CONFIG_FILE_NAME),
+    path.join(path.dirname(process.execPath), CONFIG_FILE_NAME),
+  ];
+  return candidates.find((p) => fs.existsSync(p));
+}
+
+function isStringArray(v: unknown): v is string[] {
+  return Array.isArray(v) && v.every((x) => typeof x === "string");
+}
+
+function assertStringArray(v: unknown, key: string) {
+  if (!isStringArray(v))
+    throw new Error(`config: "${key}" ต้องเป็น array ของข้อความ`);
+  return v;
+}
+
+function assertString(v: unknown, key: string) {
+  if (typeof v !== "string" || !v.trim())
+    throw new Error(`config: "${key}" ต้องเป็นข้อความที่ไม่ว่าง`);
+  return v;
+}
+
+function parseSlaRules(v: unknown): SlaRule[] {
+  if (!Array.isArray(v)) throw new Error(`config: "slaRules" ต้องเป็น array`);
+  return v.map((rule: any, i) => {
+    const key = `slaRules[${i}]`;
+    if (!rule || typeof rule !== "object")
+      throw new Error(`config: "${key}" ต้องเป็น object`);
+    if (typeof rule.days !== "number")
+      throw new Error(`config: "${key}.days" ต้องเป็นตัวเลข`);
+    const out: SlaRule = { days: rule.days };
+    if (rule.positionContains !== undefined)
+      out.positionContains = assertStringArray(
+        rule.positionContains,
+        `${key}.positionContains`,
+      );
+    if (rule.levels !== undefined)
+      out.levels = assertStringArray(rule.levels, `${key}.levels`);
+    return out;
+  });
+}
+
+export function mergeConfig(raw: any): CombineConfig {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw))
+    throw new Error("config: ต้องเป็น JSON object");
+
+  const config: CombineConfig = structuredClone(DEFAULT_CONFIG);
+
+  if (raw.sheets !== undefined) {
+    if (raw.sheets.candidate !== undefined)
+      config.sheets.candidate = assertString(
+        raw.sheets.candidate,
+        "sheets.candidate",
+      );
+    if (raw.sheets.jr !== undefined)
+      config.sheets.jr = assertString(raw.sheets.jr, "sheets.jr");
+  }
+  if (raw.candidateHeaderOrder !== undefined)
+    config.candidateHeaderOrder = assertStringArray(
+      raw.candidateHeaderOrder,
+      "candidateHeaderOrder",
+    );
+  if (raw.headerColors !== undefined) {
+    for (const k of ["base", "input", "lookup"] as const) {
+      if (raw.headerColors[k] !== undefined)
+        config.headerColors[k] = assertString(
+          raw.headerColors[k],
+          `headerColors.${k}`,
+        );
+    }
+  }
+  if (raw.groupList !== undefined)
+    config.groupList = assertStringArray(raw.groupList, "groupList");
+  if (raw.channelList !== undefined)
+    config.channelList = assertStringArray(raw.channelList, "channelList");
+  if (raw.turndownReasonList !== undefined)
+    config.turndownReasonList = assertStringArray(
+      raw.turndownReasonList,
+      "turndownReasonList",
+    );
+  if (raw.slaRules !== undefined) config.slaRules = parseSlaRules(raw.slaRules);
+  if (raw.slaDefaultDays !== undefined) {
+    if (typeof raw.slaDefaultDays !== "number")
+      throw new Error(`config: "slaDefaultDays" ต้องเป็นตัวเลข`);
+    config.slaDefaultDays = raw.slaDefaultDays;
+  }
+  if (raw.backupRetention !== undefined) {
+    if (
+      typeof raw.backupRetention !== "number" ||
+      !Number.isInteger(raw.backupRetention) ||
+      raw.backupRetention < 0
+    )
+      throw new Error(`config: "backupRetention" ต้องเป็นจำนวนเต็ม >= 0`);
+    config.backupRetention = raw.backupRetention;
+  }
+  if (raw.extraColumns !== undefined)
+    config.extraColumns = assertStringArray(raw.extraColumns, "extraColumns");
+  if (raw.closedJrStatuses !== undefined)
+    config.closedJrStatuses = assertStringArray(
+      raw.closedJrStatuses,
+      "closedJrStatuses",
+    );
+  if (raw.lockStaleMinutes !== undefined) {
+    if (typeof raw.lockStaleMinutes !== "number" || !(raw.lockStaleMinutes > 0))
+      throw new Error(`config: "lockStaleMinutes" ต้องเป็นตัวเลข > 0`);
+    config.lockStaleMinutes = raw.lockStaleMinutes;
+  }
+  if (raw.headerAliases !== undefined) {
+    const aliases = raw.headerAliases;
+    if (!aliases || typeof aliases !== "object" || Array.isArray(aliases))
+      throw new Error(`config: "headerAliases" ต้องเป็น object`);
+    // เพิ่ม/ทับ alias default ทีละชื่อ (ใส่ "" เพื่อลบ alias default)
+    for (const [source, canonical] of Object.entries(aliases)) {
+      if (canonical === "") {
+        delete config.headerAliases[source];
+        continue;
+      }
+      config.headerAliases[source] = assertString(
+        canonical,
+        `headerAliases.${source}`,
+      );
+    }
+  }
+  if (raw.missingCandidatePolicy !== undefined) {
+    if (!MISSING_CANDIDATE_POLICIES.includes(raw.missingCandidatePolicy))
+      throw new Error(
+        `config: "missingCandidatePolicy" ต้องเป็น ${MISSING_CANDIDATE_POLICIES.join(" | ")}`,
+      );
+    config.missingCandidatePolicy = raw.missingCandidatePolicy;
+  }
+
+  return config;
+}
+
+export function loadConfig(configPath?: string): CombineConfig {
+  if (!configPath) return structuredClone(DEFAULT_CONFIG);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(
+      fs.readFileSync(configPath, "utf8").replace(/^\uFEFF/, ""),
+    );
+  } catch (error) {
+    throw new Error(`Error reading config at ${configPath}: ${error}`);
+  }
+  return mergeConfig(raw);
+}
+
+// Excel list validation: '"A, B, C"'
+export function toListFormula(items: string[]) {
+  return `"${items.map((x) => x.replace(/"/g, '""')).join(", ")}"`;
+}
+
+function quoteFormulaString(s: string) {
+  return `"${s.replace(/"/g, '""')}"`;
+}
+
+// สร้างสูตร SLA by Level จาก slaRules (IF ซ้อนกันตามลำดับ rule)
+export function buildSlaFormula(
+  rules: SlaRule[],
+  defaultDays: number,
+  positionRef: string,
+  levelRef: string,
+) {
+  let formula = String(defaultDays);
+  for (let i = rules.length - 1; i >= 0; i--) {
+    const rule = rules[i];
+    const conds = [
+      ...(rule.positionContains ?? []).map(
+        (p) => `ISNUMBER(SEARCH(${quoteFormulaString(p)}, ${positionRef}))`,
+      ),
+      ...(rule.levels ?? []).map((l) => `${levelRef}=${quoteFormulaString(l)}`),
+    ];
+    if (!conds.length) continue;
+    formula = `IF(OR(${conds.join(", ")}), ${rule.days}, ${formula})`;
+  }
+  return formula;
+}
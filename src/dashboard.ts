@@ -1,14 +1,13 @@
 import fs from "node:fs";
 import path from "node:path";
 import * as XLSX from "xlsx";
+import { loadConfig, resolveConfigPath } from "./config";
 
 type CandidateRow = Record<string, unknown>;
 
 type StageKey = "application" | "phoneScreen" | "interview" | "offer" | "hire" | "join";
 type OpenStageKey = "application" | "phoneScreen" | "interview" | "offer";
 
-const SHEET_CANDIDATE = "candidate_master";
-
 const COLUMNS = {
   idCard: "รหัสบัตรประชาชน",
   thaiPrefix: "คำนำหน้าชื่อ",
@@ -1107,11 +1106,12 @@ function renderHtml(data: any): string {
 </html>`;
 }
 
-function main() {
-  const inputPath = resolveInputPath();
-  const outputPath = resolveOutputPath(inputPath);
-  const workbook = XLSX.readFile(inputPath, { cellDates: true });
-  const sheet = workbook.Sheets[SHEET_CANDIDATE] || workbook.Sheets[workbook.SheetNames[0]];
+// sheetName = config.sheets.candidate ของไฟล์ tracking
+export function generateDashboard(inputPath: string, outputPath: string, sheetName: string) {
+  // อ่านผ่าน fs เอง: XLSX.readFile ใช้ไม่ได้เมื่อ bundle เป็น exe
+  // ไม่ใช้ cellDates: วันที่มาเป็น serial แล้ว parseExcelDate แปลงเป็นวันท้องถิ่นตรงตัว
+  const workbook = XLSX.read(fs.readFileSync(inputPath), { type: "buffer" });
+  const sheet = workbook.Sheets[sheetName] || workbook.Sheets[workbook.SheetNames[0]];
   if (!sheet) throw new Error(`ไม่พบชีตข้อมูลในไฟล์ ${inputPath}`);
 
   const rawRows = XLSX.utils.sheet_to_json<CandidateRow>(sheet, { defval: "" });
@@ -1170,4 +1170,11 @@ function main() {
   console.log(`Dashboard generated: ${outputPath}`);
 }
 
-main();
+function main() {
+  const inputPath = resolveInputPath();
+  const config = loadConfig(resolveConfigPath(getArg("--config")));
+  generateDashboard(inputPath, resolveOutputPath(inputPath), config.sheets.candidate);
+}
+
+// รันตรง (bun run dashboard) เท่านั้น; import จาก index.ts ใช้ generateDashboard
+if (import.meta.main) main();
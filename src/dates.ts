@@ -0,0 +1,153 @@
+import * as XLSX from "xlsx";
+
+// =========================
+// DATE NORMALIZER
+// =========================
+// รับค่าวันที่จาก export หลายรูปแบบ -> Date หรือ null ถ้าอ่านไม่ได้
+// Date ที่คืนเก็บวัน/เวลาตามที่เห็นใน Excel เป็น UTC เพราะ ExcelJS เขียน Date เป็น serial แบบ UTC
+// (ถ้าใช้เวลาท้องถิ่น เครื่องที่ตั้ง Asia/Bangkok จะได้วันก่อนหน้า 1 วัน)
+// - Date object / Excel serial number
+// - dd/mm/yyyy, dd-mm-yyyy, dd.mm.yyyy (ปี 2 หรือ 4 หลัก)
+// - yyyy-mm-dd (ISO, มีเวลาต่อท้ายได้)
+// - d-MMM-yy, d MMM yyyy (เดือนภาษาอังกฤษ)
+// ปี พ.ศ. (>= 2400) แปลงเป็น ค.ศ. อัตโนมัติ
+
+const BE_YEAR_THRESHOLD = 2400;
+const BE_OFFSET = 543;
+
+const MONTHS: Record<string, number> = {
+  jan: 0,
+  feb: 1,
+  mar: 2,
+  apr: 3,
+  may: 4,
+  jun: 5,
+  jul: 6,
+  aug: 7,
+  sep: 8,
+  oct: 9,
+  nov: 10,
+  dec: 11,
+};
+
+function toCEYear(year: number) {
+  return year >= BE_YEAR_THRESHOLD ? year - BE_OFFSET : year;
+}
+
+function expandTwoDigitYear(year: number) {
+  return year >= 70 ? 1900 + year : 2000 + year;
+}
+
+// สร้าง Date และเช็คว่าไม่ล้นเดือน (เช่น 31/02)
+function makeDate(
+  year: number,
+  month: number,
+  day: number,
+  h = 0,
+  m = 0,
+  s = 0,
+): Date | null {
+  const date = new Date(Date.UTC(toCEYear(year), month, day, h, m, s));
+  if (
+    Number.isNaN(date.getTime()) ||
+    date.getUTCMonth() !== month ||
+    date.getUTCDate() !== day
+  )
+    return null;
+  return date;
+}
+
+export function parseDateValue(value: unknown): Date | null {
+  if (value === null || value === undefined || value === "") return null;
+
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) return null;
+    if (value.getUTCFullYear() < BE_YEAR_THRESHOLD) return value;
+    return makeDate(
+      value.getUTCFullYear(),
+      value.getUTCMonth(),
+      value.getUTCDate(),
+      value.getUTCHours(),
+      value.getUTCMinutes(),
+      value.getUTCSeconds(),
+    );
+  }
+
+  if (typeof value === "number") {
+    if (!Number.isFinite(value) || value <= 0) return null;
+    const parsed = XLSX.SSF.parse_date_code(value);
+    if (!parsed) return null;
+    return makeDate(
+      parsed.y,
+      parsed.m - 1,
+      parsed.d,
+      parsed.H,
+      parsed.M,
+      parsed.S,
+    );
+  }
+
+  const text = String(value).trim();
+  if (!text) return null;
+
+  const iso = text.match(
+    /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?/,
+  );
+  if (iso) {
+    const [, y, mo, d, h, mi, se] = iso;
+    return makeDate(
+      Number(y),
+      Number(mo) - 1,
+      Number(d),
+      Number(h ?? 0),
+      Number(mi ?? 0),
+      Number(se ?? 0),
+    );
+  }
+
+  const dmy = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (dmy) {
+    const [, d, mo, y] = dmy;
+    const year = y.length === 2 ? expandTwoDigitYear(Number(y)) : Number(y);
+    return makeDate(year, Number(mo) - 1, Number(d));
+  }
+
+  const dMonY = text.match(
+    /^(\d{1,2})[-\s]([A-Za-z]{3})[A-Za-z]*\.?[-\s,]+(\d{2}|\d{4})$/,
+  );
+  if (dMonY) {
+    const [, d, mon, y] = dMonY;
+    const month = MONTHS[mon.toLowerCase()];
+    if (month === undefined) return null;
+    const year = y.length === 2 ? expandTwoDigitYear(Number(y)) : Number(y);
+    return makeDate(year, month, Number(d));
+  }
+
+  // ตัวเลขล้วนที่มาเป็นข้อความ (serial ที่ export มาเป็น text)
+  if (/^\d{4,6}(\.\d+)?$/.test(text)) return parseDateValue(Number(text));
+
+  return null;
+}
+
+// คอลัมน์ที่ถือเป็นวันที่ (ตามชื่อ header)
+export function isDateHeader(header: string) {
+  return (
+    header.includes("Date") ||
+    header.includes("วันที่") ||
+    header.includes("วันเกิด")
+  );
+}
+
+// เวลาปัจจุบันแบบเดียวกับ parseDateValue (เวลาท้องถิ่นเก็บเป็น UTC) สำหรับเขียนลง Excel
+export function toExcelDateTime(d: Date) {
+  return new Date(
+    Date.UTC(
+      d.getFullYear(),
+      d.getMonth(),
+      d.getDate(),
+      d.getHours(),
+      d.getMinutes(),
+      d.getSeconds(),
+    ),
+  );
+}
@@ -1,19 +1,108 @@
+import crypto from "node:crypto";
 import fs from "node:fs";
 import fsp from "node:fs/promises";
 import path from "node:path";
 import os from "node:os";
+import readline from "node:readline/promises";
 import ExcelJS from "exceljs";
 import * as XLSX from "xlsx";
+import {
+  buildSlaFormula,
+  loadConfig,
+  resolveConfigPath,
+  toListFormula,
+} from "./config";
+import { generateDashboard } from "./dashboard";
+import { isDateHeader, parseDateValue, toExcelDateTime } from "./dates";
 
 // =========================
 // CONFIG
 // =========================
-const SHEET_CANDIDATE = "candidate_master";
-const SHEET_JR = "JR_Detail";
+// ค่า default อยู่ใน src/config.ts, override ได้ด้วย config.json หรือ --config
+const CONFIG_FILE = resolveConfigPath(getArg("--config"));
+// config ผิด: ใช้ค่า default ไปก่อน แล้ว throw ใน mainWrapper (ได้ exit code + summary JSON)
+let CONFIG_ERROR: unknown;
+const CONFIG = (() => {
+  try {
+    return loadConfig(CONFIG_FILE);
+  } catch (e) {
+    CONFIG_ERROR = e;
+    return loadConfig();
+  }
+})();
+
+const SHEET_CANDIDATE = CONFIG.sheets.candidate;
+const SHEET_JR = CONFIG.sheets.jr;
+const SHEET_CHANGE_LOG = "Change_Log";
+const SHEET_QUARANTINE = "Quarantine";
+const SHEET_VALIDATION = "Validation";
+const SHEET_JR_HISTORY = "JR_History";
+const SHEET_DATA_ISSUES = "Data_Issues";
+const SHEET_CANDIDATE_ARCHIVE = "Candidate_Archive";
+
+// นามสกุลไฟล์ที่อ่านจากโฟลเดอร์ input
+const INPUT_EXTENSIONS = [".xlsx", ".xls", ".csv", ".ods"];
 
 const CANDIDATE_KEY = "รหัสบัตรประชาชน";
 const JR_KEY = "รหัสใบร้องขอ/ID";
 const JR_NO_ALIAS = "JR No.";
+const PHONE_COL = "เบอร์ติดต่อ";
+
+// JR_Detail: JR ที่ไม่อยู่ใน export ล่าสุดยังเก็บไว้ แต่ติดสถานะในคอลัมน์นี้
+const JR_EXPORT_STATUS_COL = "Export Status";
+const JR_NOT_IN_EXPORT = "Not in latest export";
+
+// JR_History: เก็บ timeline เมื่อสถานะหรือผู้รับผิดชอบของ JR เปลี่ยน
+const JR_STATUS_COL = "สถานะล่าสุด/Latest status";
+const JR_STATUS_DATE_COL = "วันที่อัพเดทสถานะล่าสุด/Date Latest status";
+const JR_MANAGER_COL = "ผู้รับผิดชอบ/Manage by";
+const JR_HISTORY_HEADERS = [
+  "Run At",
+  JR_NO_ALIAS,
+  JR_STATUS_COL,
+  JR_STATUS_DATE_COL,
+  JR_MANAGER_COL,
+  "Previous Status",
+  "Previous Manage by",
+];
+const EMAIL_COL = "email";
+
+// คอลัมน์ที่โปรแกรมเพิ่มต่อท้าย candidate_master เอง (missingCandidatePolicy = flag)
+const CANDIDATE_NOT_IN_SOURCE_COL = "Not in source since";
+
+const VALIDATION_HEADERS = [
+  "Source",
+  "Source Row",
+  "Key",
+  "Column",
+  "Value",
+  "Issue",
+];
+
+const DATA_ISSUE_HEADERS = [
+  "Issue",
+  "Candidate Row",
+  CANDIDATE_KEY,
+  "Name",
+  JR_NO_ALIAS,
+  "Detail",
+];
+
+const DATA_ISSUE_KINDS: DataIssueKind[] = [
+  "Missing JR No.",
+  "Unknown JR No.",
+  "JR without candidates",
+  "Closed JR, open candidate",
+];
+
+const CHANGE_LOG_HEADERS = [
+  "Run At",
+  "User",
+  CANDIDATE_KEY,
+  "Column",
+  "Old Value",
+  "New Value",
+];
 
 // 10 columns base ที่ “อัปเดตได้” ตอน upsert
 const CANDIDATE_BASE_COLS = [
@@ -30,18 +119,10 @@ const CANDIDATE_BASE_COLS = [
 ] as const;
 
 // Header order
-const CANDIDATE_OUTPUT_HEADER_ORDER: string[] = [
-  "คำนำหน้าชื่อ",
-  "ชื่อ (ไทย)",
-  "สกุล (ไทย)",
-  "ชื่อ (อังกฤษ)",
-  "สกุล (อังกฤษ)",
-  "ชื่อเล่น",
-  "รหัสบัตรประชาชน",
-  "วันเกิด",
-  "เบอร์ติดต่อ",
-  "email",
-  "JR No.",
+const CANDIDATE_OUTPUT_HEADER_ORDER: string[] = CONFIG.candidateHeaderOrder;
+
+// คอลัมน์ที่ VLOOKUP จาก JR_Detail (ชื่อหัวตารางต้องตรงกับไฟล์ JR)
+const CANDIDATE_JR_LOOKUP_COLS = [
   "หน่วยธุรกิจ/BU",
   "ตำแหน่งที่ขอรับ/Requested Position",
   "ประเภทการจ้าง/Employment Category",
@@ -51,7 +132,14 @@ const CANDIDATE_OUTPUT_HEADER_ORDER: string[] = [
   "วันที่อัพเดทสถานะล่าสุด/Date Latest status",
   "สร้างโดย/Created by",
   "วันที่สร้าง/Date",
-  "Candidate Status",
+] as const;
+const CANDIDATE_JR_LOOKUP_DATE_COLS: ReadonlySet<string> = new Set([
+  "วันที่อัพเดทสถานะล่าสุด/Date Latest status",
+  "วันที่สร้าง/Date",
+]);
+
+// Stage dates (ต้องเรียงติดกัน เพราะ Candidate Status ใช้เป็น range)
+const CANDIDATE_STAGE_COLS = [
   "Shortlist",
   "1st round interview",
   "2nd round interview",
@@ -59,27 +147,79 @@ const CANDIDATE_OUTPUT_HEADER_ORDER: string[] = [
   "Offering เสนอผลประโยชน์",
   "Hiring",
   "Onboarding",
+] as const;
+
+// คอลัมน์กรอกมือ -> ล้างค่าเมื่อเพิ่มแถวใหม่
+const CANDIDATE_MANUAL_COLS = [
+  ...CANDIDATE_STAGE_COLS,
   "Channel",
   "Turndown Reason",
   "Turndown Details",
-  "Turndown Date",
-  "Resume",
-  "SLA by Level",
-  "Day to Shortlist",
-  "Day to Interview",
-  "Day to Offering",
-  "Day to Hiring",
-  "Day to Onboarding",
   "Group",
-];
+] as const;
+
+// คอลัมน์อื่นๆ ที่โค้ดอ้างถึงด้วยชื่อ
+const CANDIDATE_COL = {
+  position: "ตำแหน่งที่ขอรับ/Requested Position",
+  level: "ระดับ/Level",
+  createdDate: "วันที่สร้าง/Date",
+  status: "Candidate Status",
+  shortlist: "Shortlist",
+  interview1: "1st round interview",
+  interview2: "2nd round interview",
+  interviewFinal: "Final round interview",
+  offer: "Offering เสนอผลประโยชน์",
+  hire: "Hiring",
+  onboarding: "Onboarding",
+  channel: "Channel",
+  turndownReason: "Turndown Reason",
+  turndownDetails: "Turndown Details",
+  turndownDate: "Turndown Date",
+  resume: "Resume",
+  sla: "SLA by Level",
+  dayToShortlist: "Day to Shortlist",
+  dayToInterview: "Day to Interview",
+  dayToOffer: "Day to Offering",
+  dayToHire: "Day to Hiring",
+  dayToOnboarding: "Day to Onboarding",
+  group: "Group",
+} as const;
+
+// สีหัวตาราง: base = ข้อมูลผู้สมัคร, input = กรอกมือ, lookup = สูตร
+const CANDIDATE_INPUT_HEADER_COLS: ReadonlySet<string> = new Set([
+  JR_NO_ALIAS,
+  ...CANDIDATE_MANUAL_COLS,
+  CANDIDATE_COL.turndownDate,
+  CANDIDATE_COL.resume,
+]);
+const CANDIDATE_LOOKUP_HEADER_COLS: ReadonlySet<string> = new Set([
+  ...CANDIDATE_JR_LOOKUP_COLS,
+  CANDIDATE_COL.status,
+  CANDIDATE_COL.sla,
+  CANDIDATE_COL.dayToShortlist,
+  CANDIDATE_COL.dayToInterview,
+  CANDIDATE_COL.dayToOffer,
+  CANDIDATE_COL.dayToHire,
+  CANDIDATE_COL.dayToOnboarding,
+]);
+
+const EXTRA_COLUMNS_ALLOWED = CONFIG.extraColumns.map(normalizeHeader);
+
+// alias หัวตาราง (config.headerAliases) -> ชื่อมาตรฐาน, key เทียบแบบไม่สนตัวพิมพ์/ช่องว่าง
+const HEADER_ALIASES = new Map(
+  Object.entries(CONFIG.headerAliases).map(([source, canonical]) => [
+    headerAliasKey(source),
+    canonical,
+  ]),
+);
 
-const CANDIDATE_MAX_COLUMNS = 40;
 const CANDIDATE_WIDTH = 24;
-const HEADER_COLOR_A_J = "FF1CBBD8";
-const HEADER_COLOR_K_V_AF = "FF5387D9";
-const HEADER_COLOR_L_U_AG_AL = "FFFED243";
-const GROUP_DROPDOWN_LIST =
-  '"Technology, Risk Management, Credit Risk, Model Data Risk and Special Project, Operations, Marketing, Legal, Business and Channel, Finance and Strategy, People, Innovation and Transformation, CEO Office, AkulakuX, Collection, CardX AMC"';
+const HEADER_COLOR_BASE = CONFIG.headerColors.base;
+const HEADER_COLOR_INPUT = CONFIG.headerColors.input;
+const HEADER_COLOR_LOOKUP = CONFIG.headerColors.lookup;
+const GROUP_DROPDOWN_LIST = toListFormula(CONFIG.groupList);
+const CHANNEL_DROPDOWN_LIST = toListFormula(CONFIG.channelList);
+const TURNDOWN_REASON_DROPDOWN_LIST = toListFormula(CONFIG.turndownReasonList);
 
 // =========================
 // CLI ARGS
@@ -99,6 +239,130 @@ const OUT_FILE = path.resolve(
   )!,
 );
 
+// option ที่มีค่าตามหลัง (ค่าไม่นับเป็น subcommand)
+const VALUE_FLAGS = new Set([
+  "--in",
+  "--out",
+  "--config",
+  "--report-out",
+  "--dashboard-out",
+  "--merge-by",
+  "--debounce",
+  "--backup",
+  "--summary-json",
+  "--candidate",
+  "--jr",
+]);
+
+const COMMANDS = new Set([
+  "combine",
+  "report",
+  "validate",
+  "dashboard",
+  "rollback",
+  "unlock",
+  "help",
+]);
+
+// --merge [glob]: glob ไม่บังคับ ค่าถัดไปที่เป็น option หรือชื่อคำสั่งไม่ใช่ glob
+function isMergeGlob(value: string | undefined) {
+  return !!value && !value.startsWith("-") && !COMMANDS.has(value);
+}
+
+// argument ที่ไม่ใช่ option: [command, ...ค่าของ command]
+function positionalArgs() {
+  const args = process.argv.slice(2);
+  const out: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (VALUE_FLAGS.has(arg)) i++;
+    else if (arg === "--merge" && isMergeGlob(args[i + 1])) i++;
+    else if (!arg.startsWith("-")) out.push(arg);
+  }
+  return out;
+}
+
+// subcommand: combine (default) | report | validate | dashboard | rollback | unlock
+const POSITIONAL_ARGS = positionalArgs();
+const COMMAND = POSITIONAL_ARGS[0] ?? "combine";
+const HELP =
+  COMMAND === "help" ||
+  process.argv.includes("--help") ||
+  process.argv.includes("-h");
+const BACKUP_DIR = path.join(path.dirname(OUT_FILE), "backups");
+
+// heartbeat ของ lock ที่โปรเซสนี้ถืออยู่ (ต่ออายุ lock ระหว่างรันนานๆ)
+const LOCK_HEARTBEAT_MS = 30_000;
+const heldLocks = new Map<string, HeldLock>();
+
+// unlock: ลบ lock ที่ยังมี heartbeat โดยไม่ถาม
+const FORCE = process.argv.includes("--force");
+
+// report = combine --dry-run
+const DRY_RUN = process.argv.includes("--dry-run") || COMMAND === "report";
+const DRY_RUN_REPORT_FILE = path.resolve(
+  getArg(
+    "--report-out",
+    OUT_FILE.replace(/\.xlsx$/i, "") + ".dry-run-report.xlsx",
+  )!,
+);
+
+// --no-pause / --ci: ไม่รอกดปุ่ม ไม่ถาม (Task Scheduler, CI)
+const NON_INTERACTIVE =
+  process.argv.includes("--no-pause") || process.argv.includes("--ci");
+const SUMMARY_JSON_FILE = getArg("--summary-json");
+
+// --merge [glob]: รวมทุกไฟล์ Candidate / JR ใน IN_DIR (หรือเฉพาะที่ตรง glob)
+// --merge-by file | updated: key ซ้ำข้ามไฟล์ ตัดสินด้วยวันที่ไฟล์ หรือวันที่อัพเดทในแถว
+// ระบุไฟล์ input เอง (ไม่ต้อง auto-detect จาก IN_DIR)
+const CANDIDATE_FILE_ARG = getArg("--candidate");
+const JR_FILE_ARG = getArg("--jr");
+
+const MERGE = process.argv.includes("--merge");
+const MERGE_GLOB = (() => {
+  const v = getArg("--merge");
+  return isMergeGlob(v) ? v : undefined;
+})();
+const MERGE_BY = getArg("--merge-by", "file")!;
+// header วันที่อัพเดทของแถว (ใช้กับ --merge-by updated)
+const UPDATED_HEADER_PATTERN =
+  /updated|update date|last modified|modified date|อัพเดท|อัปเดต|แก้ไขล่าสุด/i;
+
+// --watch: รอไฟล์ใหม่ใน IN_DIR แล้ว combine อัตโนมัติ (debounce ms)
+const WATCH = process.argv.includes("--watch");
+// ค่าที่ไม่ใช่ตัวเลขบวกใช้ค่า default
+const WATCH_DEBOUNCE_MS = (() => {
+  const ms = Number(getArg("--debounce", "3000"));
+  return ms > 0 ? ms : 3000;
+})();
+
+// --dashboard / --dashboard-out <file>: สร้าง HTML dashboard หลัง combine
+const DASHBOARD_FILE =
+  getArg("--dashboard-out") ??
+  (process.argv.includes("--dashboard")
+    ? path.join(path.dirname(OUT_FILE), "recruitment-dashboard.html")
+    : undefined);
+
+// exit code สำหรับ scheduler / monitoring
+const EXIT_CODE = {
+  ok: 0,
+  error: 1,
+  noInput: 2,
+  lockTimeout: 3,
+  validation: 4,
+  writeError: 5,
+} as const;
+
+// error ที่มี exit code เฉพาะ (ไม่ระบุ = EXIT_CODE.error)
+class CombineError extends Error {
+  constructor(
+    message: string,
+    readonly exitCode: number,
+  ) {
+    super(message);
+  }
+}
+
 // Ensure output dir exists (Run Main Logic)
 await mainWrapper();
 
@@ -137,6 +401,145 @@ async function fileExists(p: string) {
   }
 }
 
+function currentUser() {
+  try {
+    return os.userInfo().username;
+  } catch {
+    return process.env.USERNAME || process.env.USER || "";
+  }
+}
+
+// =========================================================
+// Lock file (key=value ต่อบรรทัด) + heartbeat ระหว่างรัน
+// =========================================================
+type LockInfo = Record<string, string>;
+
+function lockFileContent(lockedAt: string) {
+  return [
+    `locked_at=${lockedAt}`,
+    `heartbeat=${new Date().toISOString()}`,
+    `user=${currentUser()}`,
+    `host=${os.hostname()}`,
+    `pid=${process.pid}`,
+    "",
+  ].join("\n");
+}
+
+async function readLockInfo(lockPath: string): Promise<LockInfo | null> {
+  let text: string;
+  let mtime: Date;
+  try {
+    mtime = (await fsp.stat(lockPath)).mtime;
+    text = await fsp.readFile(lockPath, "utf8");
+  } catch {
+    return null;
+  }
+  // lock ที่เพิ่งสร้างอาจยังไม่มีเนื้อหา -> ใช้เวลาแก้ไขไฟล์แทน heartbeat
+  const info: LockInfo = { file_mtime: mtime.toISOString() };
+  for (const line of text.split(/\r?\n/)) {
+    const i = line.indexOf("=");
+    if (i > 0) info[line.slice(0, i).trim()] = line.slice(i + 1).trim();
+  }
+  return info;
+}
+
+function describeLock(info: LockInfo) {
+  return [
+    `user=${info.user || "?"}`,
+    `host=${info.host || "?"}`,
+    `pid=${info.pid || "?"}`,
+    `locked_at=${info.locked_at || "?"}`,
+    `heartbeat=${info.heartbeat || info.file_mtime || "?"}`,
+  ].join(", ");
+}
+
+function isLocalProcessAlive(pid: number) {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e: any) {
+    // EPERM = มี process อยู่แต่เป็นของ user อื่น
+    return e?.code === "EPERM";
+  }
+}
+
+// lock ค้าง = heartbeat เก่ากว่า lockStaleMinutes หรือ PID บนเครื่องนี้ตายไปแล้ว
+function staleLockReason(info: LockInfo) {
+  const pid = Number(info.pid);
+  if (info.host === os.hostname() && pid > 0 && !isLocalProcessAlive(pid))
+    return `process ${pid} บนเครื่องนี้ไม่ทำงานแล้ว`;
+  const last = Date.parse(info.heartbeat || info.locked_at || info.file_mtime);
+  const staleMs = CONFIG.lockStaleMinutes * 60_000;
+  if (Number.isNaN(last)) return "อ่านเวลาใน lock file ไม่ได้";
+  if (Date.now() - last > staleMs)
+    return `ไม่มี heartbeat เกิน ${CONFIG.lockStaleMinutes} นาที`;
+  return undefined;
+}
+
+// lock ที่โปรเซสนี้ถือ: locked_at + pid + host ใช้ยืนยันว่าไฟล์ lock ยังเป็นของเรา
+type HeldLock = {
+  lockedAt: string;
+  timer: ReturnType<typeof setInterval>;
+  released: boolean;
+  heartbeat?: Promise<void>;
+};
+
+function isOwnLock(info: LockInfo | null, lockedAt: string) {
+  return (
+    !!info &&
+    info.locked_at === lockedAt &&
+    info.pid === String(process.pid) &&
+    info.host === os.hostname()
+  );
+}
+
+// ข้อมูล lock ตัวเดียวกัน (heartbeat / mtime ยังไม่เปลี่ยน)
+function isSameLock(a: LockInfo, b: LockInfo) {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every((k) => a[k] === b[k]);
+}
+
+// เขียนไฟล์ใหม่แล้ว rename ทับ -> คนอ่านไม่เจอ lock ว่างครึ่งๆ กลางๆ
+async function writeLockFile(lockPath: string, content: string) {
+  const tempPath = `${lockPath}.${process.pid}.tmp`;
+  await fsp.writeFile(tempPath, content);
+  await fsp.rename(tempPath, lockPath);
+}
+
+async function heartbeatLock(lockPath: string, held: HeldLock) {
+  if (held.released) return;
+  const info = await readLockInfo(lockPath);
+  if (!isOwnLock(info, held.lockedAt)) {
+    // ถูก unlock หรือถูกยึดไปแล้ว -> ห้ามเขียนทับ lock ของคนอื่น
+    clearInterval(held.timer);
+    console.warn(
+      `⚠️ lock ไม่ใช่ของโปรเซสนี้แล้ว (${info ? describeLock(info) : "ถูกลบ"}) -> หยุด heartbeat`,
+    );
+    return;
+  }
+  await writeLockFile(lockPath, lockFileContent(held.lockedAt));
+}
+
+// ยึด lock ค้าง: rename ออกไปก่อนแล้วเช็คว่าเป็นตัวที่ตัดสินว่าค้างจริง
+// (ถ้าอีกโปรเซสยึดไปแล้วและสร้าง lock ใหม่ จะได้ไม่ลบ lock ใหม่นั้น)
+async function takeOverStaleLock(lockPath: string, staleInfo: LockInfo) {
+  const movedPath = `${lockPath}.stale.${process.pid}.${Date.now()}`;
+  try {
+    await fsp.rename(lockPath, movedPath);
+  } catch (e: any) {
+    if (e?.code === "ENOENT") return false;
+    throw e;
+  }
+  const moved = await readLockInfo(movedPath);
+  if (moved && !isSameLock(moved, staleInfo)) {
+    // หยิบ lock ของคนอื่นมา -> คืนที่เดิม
+    await fsp.rename(movedPath, lockPath).catch(() => undefined);
+    return false;
+  }
+  await fsp.rm(movedPath, { force: true });
+  return true;
+}
+
 async function acquireLock(
   lockPath: string,
   timeoutMs = 120_000,
@@ -146,21 +549,50 @@ async function acquireLock(
   while (true) {
     try {
       const fd = await fsp.open(lockPath, "wx");
-      await fd.writeFile(
-        `locked_at=${new Date().toISOString()}\nuser=${os.userInfo().username}\n`,
-      );
+      const lockedAt = new Date().toISOString();
+      await fd.writeFile(lockFileContent(lockedAt));
       await fd.close();
+      const held: HeldLock = {
+        lockedAt,
+        released: false,
+        timer: setInterval(() => {
+          held.heartbeat = heartbeatLock(lockPath, held).catch(() => undefined);
+        }, LOCK_HEARTBEAT_MS),
+      };
+      held.timer.unref();
+      heldLocks.set(lockPath, held);
       return;
     } catch (e: any) {
       if (e?.code !== "EEXIST") throw e;
+      const info = await readLockInfo(lockPath);
+      const stale = info && staleLockReason(info);
+      if (info && stale) {
+        if (await takeOverStaleLock(lockPath, info))
+          console.warn(
+            `⚠️ ยึด lock ที่ค้างอยู่ (${stale}): ${describeLock(info)}`,
+          );
+        continue;
+      }
       if (Date.now() - start > timeoutMs)
-        throw new Error(`Timeout waiting for lock: ${lockPath}`);
+        throw new CombineError(
+          `Timeout waiting for lock: ${lockPath}` +
+            (info ? `\n - ถือโดย ${describeLock(info)}` : ""),
+          EXIT_CODE.lockTimeout,
+        );
       await new Promise((r) => setTimeout(r, pollMs));
     }
   }
 }
 
 async function releaseLock(lockPath: string) {
+  const held = heldLocks.get(lockPath);
+  if (!held) return;
+  heldLocks.delete(lockPath);
+  held.released = true;
+  clearInterval(held.timer);
+  // รอ heartbeat ที่กำลังเขียนอยู่ให้เสร็จก่อน ไม่งั้น lock จะถูกสร้างกลับมาหลังลบ
+  await held.heartbeat;
+  if (!isOwnLock(await readLockInfo(lockPath), held.lockedAt)) return;
   try {
     await fsp.unlink(lockPath);
   } catch {
@@ -168,10 +600,114 @@ async function releaseLock(lockPath: string) {
   }
 }
 
+// =========================================================
+// Output file: fingerprint (กันทับงานที่ save ระหว่างรัน) + atomic write
+// =========================================================
+type FileFingerprint = { hash: string; mtimeMs: number } | null;
+
+function sha256(data: Uint8Array) {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+// อ่านไฟล์พร้อม fingerprint (stat ก่อนอ่าน -> ถ้าแก้ระหว่างนั้นจะถือว่าเปลี่ยน)
+async function readFileWithFingerprint(filePath: string) {
+  const stat = await fsp.stat(filePath);
+  const buffer = await fsp.readFile(filePath);
+  const fingerprint: FileFingerprint = {
+    hash: sha256(buffer),
+    mtimeMs: stat.mtimeMs,
+  };
+  return { buffer, fingerprint };
+}
+
+async function assertFileUnchanged(
+  filePath: string,
+  expected: FileFingerprint,
+) {
+  let current: FileFingerprint = null;
+  if (await fileExists(filePath))
+    current = (await readFileWithFingerprint(filePath)).fingerprint;
+  if (current?.hash === expected?.hash) return;
+  const when = current
+    ? new Date(current.mtimeMs).toLocaleString()
+    : "(ไฟล์ถูกลบ)";
+  throw new CombineError(
+    `ไฟล์ ${filePath} ถูกแก้ไขระหว่างรัน (แก้ล่าสุด ${when}) — ` +
+      "ยกเลิกการเขียนเพื่อไม่ทับข้อมูลที่เพิ่งบันทึก กรุณาปิดไฟล์แล้วรันใหม่",
+    EXIT_CODE.writeError,
+  );
+}
+
+// เขียนลงไฟล์ชั่วคราวในโฟลเดอร์เดียวกัน แล้ว rename ทับ (ไม่มีไฟล์ครึ่งๆ กลางๆ)
+async function replaceFileAtomic(
+  filePath: string,
+  writeTemp: (tempPath: string) => Promise<void>,
+) {
+  const tempPath = path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${process.pid}.tmp`,
+  );
+  try {
+    await writeTemp(tempPath);
+    await fsp.rename(tempPath, filePath);
+  } catch (e: any) {
+    await fsp.rm(tempPath, { force: true });
+    throw new CombineError(
+      `เขียนไฟล์ ${filePath} ไม่สำเร็จ: ${e?.message || e}`,
+      EXIT_CODE.writeError,
+    );
+  }
+}
+
+// CSV จาก ATS: UTF-8 (มี/ไม่มี BOM), UTF-16 (BOM) หรือ TIS-620/Windows-874
+// ถ้า decode เป็น UTF-8 ไม่ผ่านถือว่าเป็นภาษาไทยแบบ 8-bit (Windows-874 ครอบ TIS-620)
+function detectCsvEncoding(buffer: Buffer) {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf)
+    return "utf-8";
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) return "utf-16le";
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) return "utf-16be";
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+    return "utf-8";
+  } catch {
+    return "windows-874";
+  }
+}
+
+function decodeCsv(buffer: Buffer) {
+  const encoding = detectCsvEncoding(buffer);
+  // TextDecoder ตัด BOM ให้เอง
+  return { encoding, text: new TextDecoder(encoding).decode(buffer) };
+}
+
+// cellDates ของ SheetJS สร้าง Date ตามเวลาท้องถิ่น (ใน Asia/Bangkok ได้วันก่อนหน้า)
+// -> อ่านเป็น serial แล้วแปลงเซลล์ที่ format เป็นวันที่ด้วย parseDateValue แทน
+function convertDateCells(wb: XLSX.WorkBook) {
+  for (const ws of Object.values(wb.Sheets)) {
+    for (const [addr, cell] of Object.entries(ws)) {
+      if (addr.startsWith("!")) continue;
+      const c = cell as XLSX.CellObject;
+      if (c.t !== "n" || !c.z || !XLSX.SSF.is_date(c.z)) continue;
+      const date = parseDateValue(c.v);
+      if (!date) continue;
+      c.t = "d";
+      c.v = date;
+    }
+  }
+  return wb;
+}
+
 function readWorkbook(filePath: string) {
   try {
     const fileBuffer = fs.readFileSync(filePath);
-    return XLSX.read(fileBuffer, { type: "buffer", cellDates: true });
+    if (path.extname(filePath).toLowerCase() === ".csv") {
+      // raw: เก็บทุกช่องเป็นข้อความ (เลขบัตร/เบอร์โทรไม่หาย 0 นำหน้า), วันที่ไปแปลงใน parseDateValue
+      const { text } = decodeCsv(fileBuffer);
+      return XLSX.read(text, { type: "string", raw: true });
+    }
+    return convertDateCells(
+      XLSX.read(fileBuffer, { type: "buffer", cellNF: true }),
+    );
   } catch (error) {
     throw new Error(`Error reading file at ${filePath}: ${error}`);
   }
@@ -244,9 +780,199 @@ function objectsToSheet(rows: Record<string, any>[], headerOrder?: string[]) {
 function toCandidateBaseRow(row: Record<string, any>) {
   const out: Record<string, any> = {};
   for (const col of CANDIDATE_BASE_COLS) out[col] = row[col] ?? "";
+  out[JR_NO_ALIAS] = row[JR_NO_ALIAS] ?? "";
   return out;
 }
 
+// =========================================================
+// VALIDATION: รหัสบัตรประชาชน 13 หลัก + checksum (mod 11)
+// =========================================================
+type QuarantinedRow = {
+  sourceRow: number;
+  // ไฟล์ต้นทาง (เฉพาะตอน --merge หลายไฟล์)
+  sourceFile?: string;
+  reason: string;
+  row: Record<string, any>;
+};
+
+function normalizeNationalId(v: any) {
+  return safeStr(v).replace(/[\s\-]/g, "");
+}
+
+function nationalIdError(id: string) {
+  if (!id) return "ไม่มีรหัสบัตรประชาชน";
+  if (!/^\d{13}$/.test(id)) return "รหัสบัตรประชาชนต้องเป็นตัวเลข 13 หลัก";
+  let sum = 0;
+  for (let i = 0; i < 12; i++) sum += Number(id[i]) * (13 - i);
+  const check = (11 - (sum % 11)) % 10;
+  if (check !== Number(id[12])) return "เลขตรวจสอบ (หลักที่ 13) ไม่ถูกต้อง";
+  return undefined;
+}
+
+// =========================================================
+// CONTACT NORMALIZATION: เบอร์โทร -> 0XXXXXXXXX, email -> lowercase
+// =========================================================
+type ValidationIssue = {
+  source: "Candidate" | "JR";
+  sourceRow: number;
+  key: string;
+  column: string;
+  value: string;
+  issue: string;
+};
+
+// +66 / 66 / ขีด / ช่องว่าง / ตัวเลขที่หาย 0 นำหน้า -> 0812345678 (มือถือ) หรือ 021234567
+function normalizeThaiPhone(v: any) {
+  const text = safeStr(v);
+  if (!text) return { value: "", ok: true };
+  let digits = text.replace(/[\s\-().]/g, "");
+  if (/^\+?66\d{8,9}$/.test(digits))
+    digits = "0" + digits.replace(/^\+?66/, "");
+  else if (/^[1-9]\d{7,8}$/.test(digits)) digits = "0" + digits;
+  if (/^0\d{8,9}$/.test(digits)) return { value: digits, ok: true };
+  return { value: text, ok: false };
+}
+
+function normalizeEmail(v: any) {
+  const value = safeStr(v).toLowerCase();
+  if (!value) return { value, ok: true };
+  return { value, ok: /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value) };
+}
+
+// แปลงค่าวันที่ใน row (in place) ด้วย parseDateValue, คืนรายการที่อ่านไม่ได้
+function normalizeDateColumns(row: Record<string, any>, headers: string[]) {
+  const issues: Array<Pick<ValidationIssue, "column" | "value" | "issue">> = [];
+  for (const h of headers) {
+    if (!isDateHeader(h)) continue;
+    const val = row[h];
+    if (val === null || val === undefined || safeStr(val) === "") continue;
+    const date = parseDateValue(val);
+    if (date) row[h] = date;
+    else
+      issues.push({
+        column: h,
+        value: safeStr(val),
+        issue: "อ่านค่าวันที่ไม่ได้",
+      });
+  }
+  return issues;
+}
+
+function normalizeCandidateContacts(row: Record<string, any>) {
+  const issues: Array<Pick<ValidationIssue, "column" | "value" | "issue">> = [];
+  const phone = normalizeThaiPhone(row[PHONE_COL]);
+  row[PHONE_COL] = phone.value;
+  if (!phone.ok)
+    issues.push({
+      column: PHONE_COL,
+      value: phone.value,
+      issue: "รูปแบบเบอร์โทรไม่ถูกต้อง",
+    });
+  const email = normalizeEmail(row[EMAIL_COL]);
+  row[EMAIL_COL] = email.value;
+  if (!email.ok)
+    issues.push({
+      column: EMAIL_COL,
+      value: email.value,
+      issue: "รูปแบบ email ไม่ถูกต้อง",
+    });
+  return issues;
+}
+
+// แยกแถวที่รหัสบัตรไม่ถูกต้องไป Quarantine (แถวว่างทั้งแถวข้ามไปเลย)
+function partitionCandidateRows(rows: Record<string, any>[]) {
+  const valid: Record<string, any>[] = [];
+  const quarantined: QuarantinedRow[] = [];
+  const issues: ValidationIssue[] = [];
+  for (const raw of rows) {
+    const row = toCandidateBaseRow(raw);
+    if (!Object.values(row).some((v) => safeStr(v))) continue;
+    row[CANDIDATE_KEY] = normalizeNationalId(row[CANDIDATE_KEY]);
+    const reason = nationalIdError(row[CANDIDATE_KEY]);
+    // __rowNum__ = index แถวจริงในชีต (0-based) จาก SheetJS
+    const sourceRow = Number((raw as any).__rowNum__ ?? -1) + 1;
+    if (reason) {
+      quarantined.push({
+        sourceRow,
+        sourceFile: (raw as any).__file__,
+        reason,
+        row,
+      });
+      continue;
+    }
+    for (const x of [
+      ...normalizeCandidateContacts(row),
+      ...normalizeDateColumns(row, [...CANDIDATE_BASE_COLS]),
+    ])
+      issues.push({
+        source: "Candidate",
+        sourceRow,
+        key: row[CANDIDATE_KEY],
+        ...x,
+      });
+    valid.push(row);
+  }
+  return { valid, quarantined, issues };
+}
+
+function validationIssueRows(issues: ValidationIssue[]) {
+  return issues.map((x) => [
+    x.source,
+    x.sourceRow > 0 ? x.sourceRow : "",
+    x.key,
+    x.column,
+    x.value,
+    x.issue,
+  ]);
+}
+
+// Validation sheet: เขียนใหม่ทุกครั้ง (ค่ายังถูก upsert ตามเดิม แค่แจ้งเตือน)
+function rewriteValidationSheet(
+  wb: ExcelJS.Workbook,
+  issues: ValidationIssue[],
+) {
+  const old = wb.getWorksheet(SHEET_VALIDATION);
+  if (old) wb.removeWorksheet(old.id);
+  if (!issues.length) return;
+  addReportSheet(
+    wb,
+    SHEET_VALIDATION,
+    VALIDATION_HEADERS,
+    validationIssueRows(issues),
+  );
+}
+
+// Quarantine sheet: เขียนใหม่ทุกครั้งตาม export ล่าสุด
+function rewriteQuarantineSheet(
+  wb: ExcelJS.Workbook,
+  quarantined: QuarantinedRow[],
+  sourceFile: string,
+) {
+  const old = wb.getWorksheet(SHEET_QUARANTINE);
+  if (old) wb.removeWorksheet(old.id);
+  if (!quarantined.length) return;
+
+  const ws = wb.addWorksheet(SHEET_QUARANTINE);
+  const dataCols = [...CANDIDATE_BASE_COLS, JR_NO_ALIAS];
+  const headers = ["Source File", "Source Row", "Reason", ...dataCols];
+  ws.addRow(headers);
+  for (const q of quarantined)
+    ws.addRow([
+      path.basename(q.sourceFile ?? sourceFile),
+      q.sourceRow > 0 ? q.sourceRow : "",
+      q.reason,
+      ...dataCols.map((h) => q.row[h] ?? ""),
+    ]);
+  ws.getRow(1).font = { bold: true };
+  ws.views = [{ state: "frozen", ySplit: 1 }];
+  headers.forEach((_h, i) => (ws.getColumn(i + 1).width = 24));
+}
+
+// 1 คน สมัครได้หลาย JR -> 1 แถวต่อ 1 ใบสมัคร (รหัสบัตรประชาชน + JR No.)
+function applicationKey(nationalId: string, jrNo: string) {
+  return `${nationalId}::${jrNo}`;
+}
+
 function buildHeaderOrder(
   rows: Record<string, any>[],
   preferred: string[] = [],
@@ -307,13 +1033,213 @@ function excelCellValueToString(v: ExcelJS.CellValue): string {
   return "";
 }
 
+// =========================================================
+// Column layout: resolve ตำแหน่งคอลัมน์จากชื่อ header
+// =========================================================
+type CandidateLayout = {
+  maxCol: number;
+  col: (header: string) => number | undefined;
+  letter: (header: string) => string | undefined;
+};
+
+function columnLetter(col: number) {
+  return XLSX.utils.encode_col(col - 1);
+}
+
+function resolveCandidateLayout(headerOrder: string[]): CandidateLayout {
+  const colByHeader = new Map<string, number>();
+  for (let c = 1; c <= headerOrder.length; c++) {
+    const h = normalizeHeader(headerOrder[c - 1]);
+    if (h && !colByHeader.has(h)) colByHeader.set(h, c);
+  }
+  const col = (header: string) => colByHeader.get(normalizeHeader(header));
+  const letter = (header: string) => {
+    const c = col(header);
+    return c ? columnLetter(c) : undefined;
+  };
+  return { maxCol: headerOrder.length, col, letter };
+}
+
+function formulaSheetRef(sheetName: string) {
+  if (/^[A-Za-z_][A-Za-z0-9_.]*$/.test(sheetName)) return sheetName;
+  return `'${sheetName.replace(/'/g, "''")}'`;
+}
+
+// VLOOKUP ไป JR_Detail: range เริ่มที่คอลัมน์ key ของ JR และ index ตามชื่อ header
+function buildJRLookupFormula(
+  jrHeaders: string[],
+  header: string,
+  keyRef: string,
+) {
+  const normalized = jrHeaders.map(normalizeHeader);
+  let keyIdx = normalized.indexOf(JR_KEY);
+  if (keyIdx < 0) keyIdx = normalized.indexOf(JR_NO_ALIAS);
+  const valueIdx = normalized.indexOf(normalizeHeader(header));
+  if (keyIdx < 0 || valueIdx < keyIdx) return undefined;
+  const from = columnLetter(keyIdx + 1);
+  const to = columnLetter(Math.max(valueIdx, normalized.length - 1) + 1);
+  const range = `${formulaSheetRef(SHEET_JR)}!$${from}:$${to}`;
+  return `IFERROR(VLOOKUP(${keyRef},${range},${valueIdx - keyIdx + 1},0),"")`;
+}
+
+function isExtraColumnAllowed(header: string) {
+  if (normalizeHeader(header) === CANDIDATE_NOT_IN_SOURCE_COL) return true;
+  return (
+    EXTRA_COLUMNS_ALLOWED.includes("*") ||
+    EXTRA_COLUMNS_ALLOWED.includes(normalizeHeader(header))
+  );
+}
+
+// คอลัมน์ที่ผู้ใช้เพิ่มเองต่อท้าย (หลัง header order) -> เก็บไว้ตาม config.extraColumns
+// คอลัมน์ที่ไม่มีทั้ง header และข้อมูลถูกตัดทิ้งเสมอ
+// คืนค่าคอลัมน์สุดท้ายที่เก็บไว้ (ไม่ใช้ ws.columnCount เพราะ ExcelJS ไม่ลดค่าให้)
+function pruneExtraColumns(ws: ExcelJS.Worksheet, maxCol: number) {
+  const lastRow = Math.max(ws.rowCount, ws.actualRowCount);
+  const hasData = (c: number) => {
+    for (let r = 2; r <= lastRow; r++) {
+      const v = ws.getCell(r, c).value;
+      if (v !== null && v !== undefined && v !== "") return true;
+    }
+    return false;
+  };
+
+  const order: number[] = [];
+  for (let c = 1; c <= maxCol; c++) order.push(c);
+  const kept: string[] = [];
+  let removed = false;
+  for (let c = maxCol + 1; c <= ws.columnCount; c++) {
+    const header = excelCellValueToString(ws.getCell(1, c).value);
+    if ((header || hasData(c)) && isExtraColumnAllowed(header)) {
+      kept.push(header || `(${c})`);
+      order.push(c);
+    } else removed = true;
+  }
+  if (removed) rearrangeColumns(ws, order);
+  if (kept.length) console.log(` - Extra columns kept: ${kept.join(", ")}`);
+  return order.length;
+}
+
+// data validation ของ ExcelJS ผูกกับ address (ws.dataValidations ไม่อยู่ใน type)
+// ตั้ง undefined = ลบ validation ของเซลล์นั้น
+function setCellValidation(
+  ws: ExcelJS.Worksheet,
+  cell: ExcelJS.Cell,
+  validation: ExcelJS.DataValidation | undefined,
+) {
+  if (validation) cell.dataValidation = validation;
+  else delete (ws as any).dataValidations.model[cell.address];
+}
+
+type CellSnapshot = {
+  value: ExcelJS.CellValue;
+  style: Partial<ExcelJS.Style>;
+  dataValidation: ExcelJS.DataValidation | undefined;
+};
+
+function snapshotCell(cell: ExcelJS.Cell): CellSnapshot {
+  return {
+    value: cloneCellValue(cell.value),
+    style: cloneCellValue(cell.style),
+    dataValidation: cloneCellValue(cell.dataValidation),
+  };
+}
+
+function restoreCell(
+  ws: ExcelJS.Worksheet,
+  cell: ExcelJS.Cell,
+  snap: CellSnapshot | undefined,
+) {
+  cell.value = snap ? snap.value : null;
+  cell.style = snap?.style ?? {};
+  setCellValidation(ws, cell, snap?.dataValidation);
+}
+
+// จัดคอลัมน์ใหม่ทั้งชีต: order[i] = คอลัมน์ต้นทางของคอลัมน์ i+1 (0 = คอลัมน์ว่าง)
+// คอลัมน์หลัง order ถูกล้าง. ไม่ใช้ spliceColumns เพราะ ExcelJS ไม่ย้าย data validation
+// และ columnCount ไม่ลดลง (ทุกครั้งที่ย้ายจะได้คอลัมน์ว่างเพิ่ม)
+function rearrangeColumns(ws: ExcelJS.Worksheet, order: number[]) {
+  const lastRow = Math.max(ws.rowCount, ws.actualRowCount);
+  const lastCol = Math.max(ws.columnCount, order.length);
+  const snapshots = new Map<number, CellSnapshot[]>();
+  for (const c of order) {
+    if (!c || snapshots.has(c)) continue;
+    const cells: CellSnapshot[] = [];
+    for (let r = 1; r <= lastRow; r++)
+      cells.push(snapshotCell(ws.getCell(r, c)));
+    snapshots.set(c, cells);
+  }
+  for (let c = 1; c <= lastCol; c++) {
+    const from = order[c - 1] ?? 0;
+    if (from === c) continue;
+    const cells = snapshots.get(from);
+    for (let r = 1; r <= lastRow; r++)
+      restoreCell(ws, ws.getCell(r, c), cells?.[r - 1]);
+  }
+}
+
+// ลบแถว (ค่า/สไตล์เลื่อนขึ้นด้วย spliceRows) แล้วย้าย data validation ตามแถวที่เลื่อน
+// เพราะ spliceRows ทิ้ง validation ไว้ที่ address เดิม (แถวท้ายจะมี validation ค้าง)
+function removeRows(ws: ExcelJS.Worksheet, rows: number[]) {
+  if (!rows.length) return;
+  const lastRow = Math.max(ws.rowCount, ws.actualRowCount);
+  const lastCol = ws.columnCount;
+  const removed = new Set(rows);
+  const first = Math.min(...rows);
+  const validations: (ExcelJS.DataValidation | undefined)[][] = [];
+  for (let r = first; r <= lastRow; r++) {
+    if (removed.has(r)) continue;
+    const row: (ExcelJS.DataValidation | undefined)[] = [];
+    for (let c = 1; c <= lastCol; c++)
+      row.push(cloneCellValue(ws.getCell(r, c).dataValidation));
+    validations.push(row);
+  }
+  for (const r of [...removed].sort((a, b) => b - a)) ws.spliceRows(r, 1);
+  for (let r = first; r <= lastRow; r++)
+    for (let c = 1; c <= lastCol; c++)
+      setCellValidation(ws, ws.getCell(r, c), validations[r - first]?.[c - 1]);
+}
+
+// ย้ายคอลัมน์เดิมของชีตให้ตรงกับ headerOrder ก่อนเขียน header ใหม่
+// (แทรก/สลับคอลัมน์ใน config แล้วข้อมูลเดิมไม่เลื่อนไปอยู่ใต้ header อื่น)
+// คอลัมน์ที่ไม่อยู่ใน headerOrder จะถูกดันไปต่อท้าย แล้วให้ pruneExtraColumns ตัดสิน
+// คืนค่า true ถ้ามีการย้าย/แทรกคอลัมน์ (สูตรของแถวเดิมต้องเขียนใหม่)
+function alignCandidateColumns(ws: ExcelJS.Worksheet, headerOrder: string[]) {
+  const colCount = ws.columnCount;
+  const headers: string[] = [];
+  for (let c = 1; c <= colCount; c++)
+    headers.push(
+      normalizeHeader(excelCellValueToString(ws.getCell(1, c).value)),
+    );
+  if (!headers.some(Boolean)) return false;
+
+  const used = new Set<number>();
+  const order: number[] = [];
+  for (const h of headerOrder) {
+    const header = normalizeHeader(h);
+    const from =
+      headers.findIndex((x, i) => x === header && !used.has(i + 1)) + 1;
+    // 0 = คอลัมน์ใหม่ใน config
+    if (from) used.add(from);
+    order.push(from);
+  }
+  for (let c = 1; c <= colCount; c++) if (!used.has(c)) order.push(c);
+  if (order.every((from, i) => from === i + 1)) return false;
+
+  rearrangeColumns(ws, order);
+  return true;
+}
+
 function cloneCandidateRowTemplate(
   ws: ExcelJS.Worksheet,
   fromRow: number,
   toRow: number,
-  maxCol: number,
+  layout: CandidateLayout,
+  lastCol: number,
 ) {
-  for (let c = 1; c <= maxCol; c++) {
+  const manualCols = new Set(
+    CANDIDATE_MANUAL_COLS.map((h) => layout.col(h)).filter(Boolean),
+  );
+  for (let c = 1; c <= lastCol; c++) {
     const src = ws.getCell(fromRow, c);
     const dst = ws.getCell(toRow, c);
 
@@ -321,8 +1247,8 @@ function cloneCandidateRowTemplate(
     if (src.dataValidation)
       dst.dataValidation = cloneCellValue(src.dataValidation);
 
-    // Prevent Ghost Data: Clear user input columns (22-31) for NEW rows
-    if ((c >= 22 && c <= 31) || c === 40) {
+    // Prevent Ghost Data: Clear user input + extra columns for NEW rows
+    if (manualCols.has(c) || c > layout.maxCol) {
       dst.value = null;
     } else {
       const sv: any = src.value;
@@ -335,73 +1261,305 @@ function cloneCandidateRowTemplate(
   }
 }
 
-// =========================================================
-// [FINAL PERFECT v4] Safe Upsert + Logging Statistics
-// =========================================================
-function upsertCandidateSheetWithExcelJS(
+function dateOnlyValidation(error: string): ExcelJS.DataValidation {
+  return {
+    type: "date",
+    operator: "greaterThan",
+    showErrorMessage: true,
+    errorTitle: "Date Only",
+    error,
+    formulae: [new Date("2020-01-01")],
+  };
+}
+
+// เขียนสูตร / data validation ของแถว r ตาม layout (ข้ามคอลัมน์ที่ไม่มีใน header)
+function writeCandidateRowFormulas(
   ws: ExcelJS.Worksheet,
-  incoming: Record<string, any>[],
-  headerOrder: string[],
+  r: number,
+  layout: CandidateLayout,
+  jrHeaders: string[],
 ) {
-  const maxCol = Math.min(CANDIDATE_MAX_COLUMNS, headerOrder.length);
-
-  // STATS COUNTERS
-  let insertedCount = 0;
-  let updatedCount = 0;
-
-  if (maxCol <= 0)
-    return { lastDataRow: 1, inserted: 0, updated: 0, originalCount: 0 };
+  const L = (h: string) => layout.letter(h);
+  const setFormula = (
+    header: string,
+    formula: string | undefined,
+    numFmt?: string,
+  ) => {
+    const c = layout.col(header);
+    if (!c) return;
+    const cell = ws.getCell(r, c);
+    cell.value = formula ? { formula } : "";
+    if (numFmt) cell.numFmt = numFmt;
+  };
 
-  for (let c = 1; c <= maxCol; c++)
-    ws.getCell(1, c).value = headerOrder[c - 1] ?? "";
-  if (ws.columnCount > maxCol)
-    ws.spliceColumns(maxCol + 1, ws.columnCount - maxCol);
+  // A. JR Lookups
+  const jrLetter = L(JR_NO_ALIAS);
+  for (const h of CANDIDATE_JR_LOOKUP_COLS) {
+    const formula = jrLetter
+      ? buildJRLookupFormula(jrHeaders, h, `$${jrLetter}${r}`)
+      : undefined;
+    setFormula(
+      h,
+      formula,
+      CANDIDATE_JR_LOOKUP_DATE_COLS.has(h) ? "d mmm yyyy" : undefined,
+    );
+  }
 
-  const colByHeader = new Map<string, number>();
-  for (let c = 1; c <= maxCol; c++) {
-    const h = normalizeHeader(headerOrder[c - 1]);
-    if (h) colByHeader.set(h, c);
+  // B. Candidate Status (stage ล่าสุดที่มีวันที่)
+  const stageCols = CANDIDATE_STAGE_COLS.map((h) => layout.col(h));
+  const stagesAdjacent = stageCols.every(
+    (c, i) => c !== undefined && c === stageCols[0]! + i,
+  );
+  const firstStage = L(CANDIDATE_STAGE_COLS[0]);
+  const lastStage = L(CANDIDATE_STAGE_COLS[CANDIDATE_STAGE_COLS.length - 1]);
+  const turndown = L(CANDIDATE_COL.turndownReason);
+  if (stagesAdjacent && firstStage && lastStage && turndown) {
+    setFormula(
+      CANDIDATE_COL.status,
+      `IF(${turndown}${r}<>"", "Turndown", IFERROR(LOOKUP(2, 1/(${firstStage}${r}:${lastStage}${r}<>""), ${firstStage}$1:${lastStage}$1), ""))`,
+    );
   }
 
-  const keyCol = colByHeader.get(CANDIDATE_KEY);
-  if (!keyCol)
-    throw new Error(
-      `ไม่พบคอลัมน์ key "${CANDIDATE_KEY}" ใน ${SHEET_CANDIDATE}`,
+  // C. SLA by Level
+  const position = L(CANDIDATE_COL.position);
+  const level = L(CANDIDATE_COL.level);
+  if (position && level) {
+    setFormula(
+      CANDIDATE_COL.sla,
+      buildSlaFormula(
+        CONFIG.slaRules,
+        CONFIG.slaDefaultDays,
+        `${position}${r}`,
+        `${level}${r}`,
+      ),
+      "0",
     );
+  }
 
-  const baseColsInfo: Array<{
-    h: (typeof CANDIDATE_BASE_COLS)[number];
-    c: number;
-  }> = [];
-  for (const h of CANDIDATE_BASE_COLS) {
-    const c = colByHeader.get(h);
-    if (c) baseColsInfo.push({ h, c });
+  // D. Day to X (นับจากวันที่สร้าง JR, stage แรกที่มีค่าตามลำดับ)
+  const created = L(CANDIDATE_COL.createdDate);
+  const dayFormula = (stages: string[]) => {
+    const letters = stages.map(L);
+    if (!created || letters.some((x) => !x)) return undefined;
+    let formula = `""`;
+    for (let i = letters.length - 1; i >= 0; i--) {
+      const x = letters[i];
+      formula = `IF(${x}${r}<>"", IFERROR(VALUE(${x}${r})-VALUE(${created}${r}), ""), ${formula})`;
+    }
+    return formula;
+  };
+  const dayCols: Array<[string, string[]]> = [
+    [CANDIDATE_COL.dayToShortlist, [CANDIDATE_COL.shortlist]],
+    [
+      CANDIDATE_COL.dayToInterview,
+      [
+        CANDIDATE_COL.interviewFinal,
+        CANDIDATE_COL.interview2,
+        CANDIDATE_COL.interview1,
+      ],
+    ],
+    [CANDIDATE_COL.dayToOffer, [CANDIDATE_COL.offer]],
+    [CANDIDATE_COL.dayToHire, [CANDIDATE_COL.hire]],
+    [CANDIDATE_COL.dayToOnboarding, [CANDIDATE_COL.onboarding]],
+  ];
+  for (const [h, stages] of dayCols) {
+    const formula = dayFormula(stages);
+    if (formula) setFormula(h, formula, "0");
   }
 
-  // 3. Scan Existing Rows
-  const keyToRow = new Map<string, number>();
-  let lastDataRow = 1;
-  const scanUntil = Math.max(ws.rowCount, ws.actualRowCount);
+  // E. Data Validation
+  for (const h of CANDIDATE_STAGE_COLS) {
+    const c = layout.col(h);
+    if (!c) continue;
+    const cell = ws.getCell(r, c);
+    cell.dataValidation = dateOnlyValidation("กรุณากรอกวันที่ (YYYY-MM-DD)");
+    cell.numFmt = "d mmm yyyy";
+  }
+
+  const channelCol = layout.col(CANDIDATE_COL.channel);
+  if (channelCol)
+    ws.getCell(r, channelCol).dataValidation = {
+      type: "list",
+      allowBlank: true,
+      formulae: [CHANNEL_DROPDOWN_LIST],
+    };
+  const turndownCol = layout.col(CANDIDATE_COL.turndownReason);
+  if (turndownCol)
+    ws.getCell(r, turndownCol).dataValidation = {
+      type: "list",
+      allowBlank: true,
+      formulae: [TURNDOWN_REASON_DROPDOWN_LIST],
+    };
+
+  const turndownDateCol = layout.col(CANDIDATE_COL.turndownDate);
+  if (turndownDateCol) {
+    const cellTurndownDate = ws.getCell(r, turndownDateCol);
+    cellTurndownDate.dataValidation = dateOnlyValidation(
+      "กรุณากรอกวันที่ Turndown",
+    );
+    cellTurndownDate.numFmt = "d mmm yyyy";
+  }
+
+  const groupCol = layout.col(CANDIDATE_COL.group);
+  if (groupCol)
+    ws.getCell(r, groupCol).dataValidation = {
+      type: "list",
+      allowBlank: true,
+      formulae: [GROUP_DROPDOWN_LIST],
+    };
+}
+
+// =========================================================
+// Change tracking (ใช้กับ dry-run report)
+// =========================================================
+type CandidateInsert = {
+  row: number;
+  nationalId: string;
+  jrNo: string;
+  name: string;
+};
+
+type CandidateCellChange = {
+  row: number;
+  nationalId: string;
+  jrNo: string;
+  column: string;
+  oldValue: string;
+  newValue: string;
+};
+
+type JRChange = {
+  jrNo: string;
+  change: "added" | "not in latest export" | "changed";
+  column: string;
+  oldValue: string;
+  newValue: string;
+};
+
+// =========================================================
+// [FINAL PERFECT v4] Safe Upsert + Logging Statistics
+// =========================================================
+function upsertCandidateSheetWithExcelJS(
+  ws: ExcelJS.Worksheet,
+  incoming: Record<string, any>[],
+  headerOrder: string[],
+  jrHeaders: string[],
+) {
+  const layout = resolveCandidateLayout(headerOrder);
+  const maxCol = layout.maxCol;
+
+  // STATS COUNTERS
+  let insertedCount = 0;
+  let updatedCount = 0;
+  const insertedRows: CandidateInsert[] = [];
+  // key = "row:column" -> เก็บค่าเดิมก่อนรัน + ค่าสุดท้าย (คนเดียวซ้ำหลายแถวใน input)
+  const cellChangeByKey = new Map<string, CandidateCellChange>();
+  const recordCellChange = (change: CandidateCellChange) => {
+    const k = `${change.row}:${change.column}`;
+    const prev = cellChangeByKey.get(k);
+    if (prev) prev.newValue = change.newValue;
+    else cellChangeByKey.set(k, change);
+  };
+  const netCellChanges = () =>
+    [...cellChangeByKey.values()].filter((x) => x.oldValue !== x.newValue);
+
+  if (maxCol <= 0)
+    return {
+      lastDataRow: 1,
+      lastCol: 0,
+      inserted: 0,
+      updated: 0,
+      originalCount: 0,
+      insertedRows,
+      cellChanges: [] as CandidateCellChange[],
+    };
+
+  const columnsMoved = alignCandidateColumns(ws, headerOrder);
+  if (columnsMoved)
+    console.log(` - ${SHEET_CANDIDATE}: ย้ายคอลัมน์ให้ตรงกับ header order`);
+  for (let c = 1; c <= maxCol; c++)
+    ws.getCell(1, c).value = headerOrder[c - 1] ?? "";
+  const lastCol = pruneExtraColumns(ws, maxCol);
+
+  const keyCol = layout.col(CANDIDATE_KEY);
+  if (!keyCol)
+    throw new Error(
+      `ไม่พบคอลัมน์ key "${CANDIDATE_KEY}" ใน ${SHEET_CANDIDATE}`,
+    );
+  const jrCol = layout.col(JR_NO_ALIAS);
+  if (!jrCol)
+    throw new Error(`ไม่พบคอลัมน์ key "${JR_NO_ALIAS}" ใน ${SHEET_CANDIDATE}`);
+
+  const baseColsInfo: Array<{
+    h: (typeof CANDIDATE_BASE_COLS)[number];
+    c: number;
+  }> = [];
+  for (const h of CANDIDATE_BASE_COLS) {
+    const c = layout.col(h);
+    if (c) baseColsInfo.push({ h, c });
+  }
+
+  // 3. Scan Existing Rows
+  // keyToRow: application key -> row, rowsById: รหัสบัตรประชาชน -> ทุกแถวของคนนั้น
+  const keyToRow = new Map<string, number>();
+  const rowsById = new Map<string, number[]>();
+  let lastDataRow = 1;
+  const scanUntil = Math.max(ws.rowCount, ws.actualRowCount);
 
   for (let r = 2; r <= scanUntil; r++) {
-    const key = excelCellValueToString(ws.getCell(r, keyCol).value);
+    const key = normalizeNationalId(
+      excelCellValueToString(ws.getCell(r, keyCol).value),
+    );
     let hasBaseData = false;
     for (const b of baseColsInfo) {
       if (excelCellValueToString(ws.getCell(r, b.c).value)) hasBaseData = true;
     }
-    if (key) keyToRow.set(key, r);
+    if (key) {
+      const jrNo = excelCellValueToString(ws.getCell(r, jrCol).value);
+      keyToRow.set(applicationKey(key, jrNo), r);
+      const personRows = rowsById.get(key) ?? [];
+      personRows.push(r);
+      rowsById.set(key, personRows);
+    }
     if (key || hasBaseData) lastDataRow = r;
   }
 
-  // Count original existing candidates
+  // Count original existing applications
   const originalCount = keyToRow.size;
 
+  // คอลัมน์ถูกย้าย -> สูตรเดิมอ้าง column letter เก่า, เขียนใหม่ทุกแถว
+  if (columnsMoved)
+    for (const r of keyToRow.values())
+      writeCandidateRowFormulas(ws, r, layout, jrHeaders);
+
   // 4. Process Incoming Rows
   for (const row of incoming) {
-    const key = safeStr(row[CANDIDATE_KEY]);
+    const key = normalizeNationalId(row[CANDIDATE_KEY]);
     if (!key) continue;
 
-    let targetRow = keyToRow.get(key);
+    const jrNo = safeStr(row[JR_NO_ALIAS]);
+    const appKey = applicationKey(key, jrNo);
+    let targetRow = keyToRow.get(appKey);
+
+    // แถวเดิมของคนนี้ที่ยังไม่มี JR No. -> ใช้แถวนั้นแทนการเพิ่มแถวใหม่
+    if (!targetRow && jrNo) {
+      const blankKey = applicationKey(key, "");
+      const blankRow = keyToRow.get(blankKey);
+      if (blankRow) {
+        keyToRow.delete(blankKey);
+        keyToRow.set(appKey, blankRow);
+        ws.getCell(blankRow, jrCol).value = row[JR_NO_ALIAS];
+        recordCellChange({
+          row: blankRow,
+          nationalId: key,
+          jrNo,
+          column: JR_NO_ALIAS,
+          oldValue: "",
+          newValue: jrNo,
+        });
+        targetRow = blankRow;
+      }
+    }
 
     // --- CASE 1: NEW ROW ---
     if (!targetRow) {
@@ -409,16 +1567,29 @@ function upsertCandidateSheetWithExcelJS(
 
       targetRow = lastDataRow + 1;
       if (lastDataRow >= 2)
-        cloneCandidateRowTemplate(ws, lastDataRow, targetRow, maxCol);
+        cloneCandidateRowTemplate(ws, lastDataRow, targetRow, layout, lastCol);
 
-      for (let c = 22; c <= 31; c++) ws.getCell(targetRow, c).value = null;
-      ws.getCell(targetRow, 40).value = null;
+      for (const h of CANDIDATE_MANUAL_COLS) {
+        const c = layout.col(h);
+        if (c) ws.getCell(targetRow, c).value = null;
+      }
 
-      const incomingJR = row[JR_NO_ALIAS];
-      if (incomingJR) ws.getCell(targetRow, 11).value = incomingJR;
+      ws.getCell(targetRow, jrCol).value = jrNo ? row[JR_NO_ALIAS] : null;
 
-      keyToRow.set(key, targetRow);
+      keyToRow.set(appKey, targetRow);
+      const personRows = rowsById.get(key) ?? [];
+      personRows.push(targetRow);
+      rowsById.set(key, personRows);
       lastDataRow = targetRow;
+      insertedRows.push({
+        row: targetRow,
+        nationalId: key,
+        jrNo,
+        name: [row["ชื่อ (ไทย)"], row["สกุล (ไทย)"]]
+          .map(safeStr)
+          .filter(Boolean)
+          .join(" "),
+      });
     } else {
       updatedCount++; // STATS: Update
     }
@@ -426,142 +1597,368 @@ function upsertCandidateSheetWithExcelJS(
     // --- CASE 2: EXISTING ROW ---
     const r = targetRow;
 
-    // A. Base Data
-    for (const b of baseColsInfo) {
-      let val = row[b.h];
-      if (val instanceof Date && isNaN(val.getTime())) val = "";
-      ws.getCell(r, b.c).value = val ?? "";
+    // A. Base Data (ข้อมูลส่วนตัว อัปเดตทุกแถวของคนนี้)
+    for (const personRow of rowsById.get(key) ?? [r]) {
+      const isNewRow = insertedRows.some((x) => x.row === personRow);
+      for (const b of baseColsInfo) {
+        let val = row[b.h];
+        if (val instanceof Date && isNaN(val.getTime())) val = "";
+        const cell = ws.getCell(personRow, b.c);
+        const oldValue = excelCellValueToString(cell.value);
+        const newValue = excelCellValueToString(val ?? "");
+        if (!isNewRow)
+          recordCellChange({
+            row: personRow,
+            nationalId: key,
+            jrNo: excelCellValueToString(ws.getCell(personRow, jrCol).value),
+            column: b.h,
+            oldValue,
+            newValue,
+          });
+        cell.value = val ?? "";
+        if (val instanceof Date) cell.numFmt = "d mmm yyyy";
+      }
     }
 
-    // B. JR No. (Skipped for existing)
-
-    // C. Update Formulas
-    ws.getCell(r, 12).value = {
-      formula: `IFERROR(VLOOKUP($K${r},JR_Detail!$A:$O,2,0),"")`,
-    };
-    ws.getCell(r, 13).value = {
-      formula: `IFERROR(VLOOKUP($K${r},JR_Detail!$A:$O,3,0),"")`,
-    };
-    ws.getCell(r, 14).value = {
-      formula: `IFERROR(VLOOKUP($K${r},JR_Detail!$A:$O,4,0),"")`,
-    };
-    ws.getCell(r, 15).value = {
-      formula: `IFERROR(VLOOKUP($K${r},JR_Detail!$A:$O,5,0),"")`,
-    };
-    ws.getCell(r, 16).value = {
-      formula: `IFERROR(VLOOKUP($K${r},JR_Detail!$A:$O,11,0),"")`,
-    };
-    ws.getCell(r, 17).value = {
-      formula: `IFERROR(VLOOKUP($K${r},JR_Detail!$A:$O,12,0),"")`,
-    };
+    // B. JR No. (เป็นส่วนหนึ่งของ key จึงไม่เขียนทับ)
 
-    const cellR = ws.getCell(r, 18);
-    cellR.value = {
-      formula: `IFERROR(VLOOKUP($K${r},JR_Detail!$A:$O,13,0),"")`,
-    };
-    cellR.numFmt = "d mmm yyyy";
+    // C. Update Formulas + D. Data Validation
+    writeCandidateRowFormulas(ws, r, layout, jrHeaders);
+  }
 
-    ws.getCell(r, 19).value = {
-      formula: `IFERROR(VLOOKUP($K${r},JR_Detail!$A:$O,14,0),"")`,
-    };
+  return {
+    lastDataRow,
+    lastCol,
+    inserted: insertedCount,
+    updated: updatedCount,
+    originalCount,
+    insertedRows,
+    cellChanges: netCellChanges(),
+  };
+}
 
-    const cellT = ws.getCell(r, 20);
-    cellT.value = {
-      formula: `IFERROR(VLOOKUP($K${r},JR_Detail!$A:$O,15,0),"")`,
-    };
-    cellT.numFmt = "d mmm yyyy";
+// =========================================================
+// Candidate ที่ไม่อยู่ใน export ล่าสุด (config.missingCandidatePolicy)
+// =========================================================
+type MissingCandidate = {
+  row: number;
+  nationalId: string;
+  jrNo: string;
+  name: string;
+  since: Date;
+};
+
+function startOfDay(d: Date) {
+  return new Date(
+    Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()),
+  );
+}
 
-    ws.getCell(r, 21).value = {
-      formula: `IF(AD${r}<>"", "Turndown", IFERROR(LOOKUP(2, 1/(V${r}:AB${r}<>""), V$1:AB$1), ""))`,
-    };
+function findHeaderColumn(
+  ws: ExcelJS.Worksheet,
+  header: string,
+  fromCol: number,
+  toCol: number,
+) {
+  for (let c = fromCol; c <= toCol; c++) {
+    if (
+      normalizeHeader(excelCellValueToString(ws.getCell(1, c).value)) ===
+      normalizeHeader(header)
+    )
+      return c;
+  }
+  return undefined;
+}
 
-    ws.getCell(r, 34).value = {
-      formula: `IF(OR(ISNUMBER(SEARCH("Collector", M${r})), ISNUMBER(SEARCH("Underwriting", M${r})), ISNUMBER(SEARCH("Contact Center", M${r}))), 30, IF(OR(O${r}="Chief", O${r}="Head of"), 90, IF(OR(O${r}="Team lead", O${r}="Senior Professional", O${r}="Expert"), 60, IF(OR(O${r}="Professional", O${r}="Support"), 45, 0))))`,
-    };
-    ws.getCell(r, 34).numFmt = "0";
+// คัดลอกแถวไป Candidate_Archive (สูตรเก็บเป็นค่า result เพราะอ้างอิงแถวเดิม)
+function archiveCandidateRows(
+  wb: ExcelJS.Workbook,
+  ws: ExcelJS.Worksheet,
+  rows: number[],
+  lastCol: number,
+  runAt: Date,
+) {
+  let archive = wb.getWorksheet(SHEET_CANDIDATE_ARCHIVE);
+  if (!archive) {
+    archive = wb.addWorksheet(SHEET_CANDIDATE_ARCHIVE);
+    const headers = ["Archived At"];
+    for (let c = 1; c <= lastCol; c++)
+      headers.push(excelCellValueToString(ws.getCell(1, c).value));
+    archive.addRow(headers);
+    archive.getRow(1).font = { bold: true };
+    archive.views = [{ state: "frozen", ySplit: 1 }];
+    headers.forEach((_h, i) => (archive!.getColumn(i + 1).width = 24));
+  }
 
-    ws.getCell(r, 35).value = {
-      formula: `IF(V${r}<>"", IFERROR(VALUE(V${r})-VALUE(T${r}), ""), "")`,
-    };
-    ws.getCell(r, 35).numFmt = "0";
+  // วางค่าตามชื่อ header ของชีต archive (ลำดับคอลัมน์อาจเปลี่ยนตาม config)
+  const archiveCols = new Map<string, number>();
+  for (let c = 2; c <= archive.columnCount; c++) {
+    const h = normalizeHeader(
+      excelCellValueToString(archive.getCell(1, c).value),
+    );
+    if (h && !archiveCols.has(h)) archiveCols.set(h, c);
+  }
 
-    ws.getCell(r, 36).value = {
-      formula: `IF(Y${r}<>"", IFERROR(VALUE(Y${r})-VALUE(T${r}), ""), IF(X${r}<>"", IFERROR(VALUE(X${r})-VALUE(T${r}), ""), IF(W${r}<>"", IFERROR(VALUE(W${r})-VALUE(T${r}), ""), "")))`,
-    };
-    ws.getCell(r, 36).numFmt = "0";
+  for (const r of rows) {
+    const target = archive.addRow([runAt]);
+    target.getCell(1).numFmt = "yyyy-mm-dd hh:mm:ss";
+    for (let c = 1; c <= lastCol; c++) {
+      const header = normalizeHeader(
+        excelCellValueToString(ws.getCell(1, c).value),
+      );
+      let ac = archiveCols.get(header);
+      if (!ac) {
+        ac = archive.columnCount + 1;
+        archive.getCell(1, ac).value = header;
+        archive.getColumn(ac).width = 24;
+        archiveCols.set(header, ac);
+      }
+      const src = ws.getCell(r, c);
+      const v: any = src.value;
+      const isFormula =
+        v && typeof v === "object" && ("formula" in v || "sharedFormula" in v);
+      const dst = target.getCell(ac);
+      dst.value = isFormula ? (v.result ?? "") : cloneCellValue(v);
+      if (src.numFmt) dst.numFmt = src.numFmt;
+    }
+  }
+}
 
-    ws.getCell(r, 37).value = {
-      formula: `IF(Z${r}<>"", IFERROR(VALUE(Z${r})-VALUE(T${r}), ""), "")`,
-    };
-    ws.getCell(r, 37).numFmt = "0";
+function handleMissingCandidates(
+  wb: ExcelJS.Workbook,
+  ws: ExcelJS.Worksheet,
+  lastDataRow: number,
+  lastCol: number,
+  headerOrder: string[],
+  jrHeaders: string[],
+  incomingIds: ReadonlySet<string>,
+  runAt: Date,
+) {
+  const policy = CONFIG.missingCandidatePolicy;
+  const result = {
+    lastDataRow,
+    lastCol,
+    missing: [] as MissingCandidate[],
+    archived: 0,
+    returned: 0,
+  };
+  if (policy === "ignore") return result;
+  // ไฟล์ export ว่าง -> ไม่ตีความว่าทุกคนหายไป
+  if (!incomingIds.size) {
+    console.warn(
+      "⚠️ ไฟล์ Candidate ไม่มีข้อมูล -> ข้ามการตรวจ candidate ที่ไม่อยู่ใน export",
+    );
+    return result;
+  }
 
-    ws.getCell(r, 38).value = {
-      formula: `IF(AA${r}<>"", IFERROR(VALUE(AA${r})-VALUE(T${r}), ""), "")`,
-    };
-    ws.getCell(r, 38).numFmt = "0";
+  const layout = resolveCandidateLayout(headerOrder);
+  const keyCol = layout.col(CANDIDATE_KEY);
+  if (!keyCol) return result;
+  const get = (r: number, header: string) => {
+    const c = layout.col(header);
+    return c ? excelCellValueToString(ws.getCell(r, c).value) : "";
+  };
+  let flagCol = findHeaderColumn(
+    ws,
+    CANDIDATE_NOT_IN_SOURCE_COL,
+    layout.maxCol + 1,
+    lastCol,
+  );
 
-    ws.getCell(r, 39).value = {
-      formula: `IF(AB${r}<>"", IFERROR(VALUE(AB${r})-VALUE(T${r}), ""), "")`,
-    };
-    ws.getCell(r, 39).numFmt = "0";
+  for (let r = 2; r <= lastDataRow; r++) {
+    const id = normalizeNationalId(
+      excelCellValueToString(ws.getCell(r, keyCol).value),
+    );
+    if (!id) continue;
+    const flagCell = flagCol ? ws.getCell(r, flagCol) : undefined;
+    if (incomingIds.has(id)) {
+      // กลับมาอยู่ใน export แล้ว -> ล้าง flag
+      if (flagCell && excelCellValueToString(flagCell.value)) {
+        flagCell.value = null;
+        result.returned++;
+      }
+      continue;
+    }
+    result.missing.push({
+      row: r,
+      nationalId: id,
+      jrNo: get(r, JR_NO_ALIAS),
+      name: [get(r, "ชื่อ (ไทย)"), get(r, "สกุล (ไทย)")]
+        .filter(Boolean)
+        .join(" "),
+      since: parseDateValue(flagCell?.value) ?? startOfDay(runAt),
+    });
+  }
+  if (!result.missing.length) return result;
 
-    // D. Data Validation
-    for (let c = 22; c <= 28; c++) {
-      const cell = ws.getCell(r, c);
-      cell.dataValidation = {
-        type: "date",
-        operator: "greaterThan",
-        showErrorMessage: true,
-        errorTitle: "Date Only",
-        error: "กรุณากรอกวันที่ (YYYY-MM-DD)",
-        formulae: [new Date("2020-01-01")],
-      };
+  if (policy === "flag") {
+    if (!flagCol) {
+      flagCol = lastCol + 1;
+      ws.getCell(1, flagCol).value = CANDIDATE_NOT_IN_SOURCE_COL;
+      result.lastCol = flagCol;
+    }
+    for (const m of result.missing) {
+      const cell = ws.getCell(m.row, flagCol);
+      cell.value = m.since;
       cell.numFmt = "d mmm yyyy";
     }
-    ws.getCell(r, 29).dataValidation = {
-      type: "list",
-      allowBlank: true,
-      formulae: ['"Jobthai, JobBkk, JobsDB, LinkedIN, Facebook, Referral, Agency, กรมจัดหางาน, Job Fair, Jobfinfin, Other"'],
-    };
-    ws.getCell(r, 30).dataValidation = {
-      type: "list",
-      allowBlank: true,
-      formulae: [
-        '"Get better offer จากบริษัทอื่น, Counter offer จากบริษัทเดิม, Pay below expectation, Career concern / Career Path, Company brand, 100% WFH or Hybrid Working, Health, Location, ศึกษาต่อ, Policy SCBX Group,Other"',
-      ],
-    };
+    return result;
+  }
+
+  // archive: ย้ายแถวออก แล้วเขียนสูตรใหม่ให้แถวที่เลื่อนขึ้นมา
+  const rows = result.missing.map((m) => m.row);
+  archiveCandidateRows(wb, ws, rows, lastCol, runAt);
+  removeRows(ws, rows);
+  result.archived = rows.length;
+  result.lastDataRow = lastDataRow - rows.length;
+  for (let r = 2; r <= result.lastDataRow; r++)
+    writeCandidateRowFormulas(ws, r, layout, jrHeaders);
+  return result;
+}
+
+// =========================================================
+// Cached formula results: คำนวณค่าสูตรใน TS แล้วเขียนเป็น result
+// (ExcelJS ไม่คำนวณสูตร -> SheetJS / dashboard จะเห็นค่าว่างจนกว่าจะเปิด-save ใน Excel)
+// =========================================================
+type CachedResult = string | number | Date;
+
+function isFormulaValue(v: ExcelJS.CellValue): v is ExcelJS.CellFormulaValue {
+  return (
+    !!v && typeof v === "object" && ("formula" in v || "sharedFormula" in v)
+  );
+}
+
+// ค่าของเซลล์แบบที่สูตรอื่นเห็น (สูตร -> result ที่ cache ไว้)
+function toCachedResult(v: ExcelJS.CellValue | undefined): CachedResult {
+  if (v === null || v === undefined) return "";
+  if (v instanceof Date || typeof v === "number") return v;
+  if (isFormulaValue(v)) {
+    const r = v.result;
+    if (r instanceof Date || typeof r === "number" || typeof r === "string")
+      return r;
+    return "";
+  }
+  return excelCellValueToString(v);
+}
+
+// serial แบบเดียวกับที่ ExcelJS เขียน Date ลงไฟล์
+function excelSerial(d: Date) {
+  return d.getTime() / 86_400_000 + 25569;
+}
+
+// เทียบเท่า VALUE() ของ Excel (null = #VALUE!)
+function excelNumberValue(v: CachedResult): number | null {
+  if (v instanceof Date) return excelSerial(v);
+  if (typeof v === "number") return v;
+  const text = v.trim();
+  if (!text) return null;
+  if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+  const date = parseDateValue(text);
+  return date ? excelSerial(date) : null;
+}
+
+function writeCandidateFormulaResults(
+  ws: ExcelJS.Worksheet,
+  lastDataRow: number,
+  headerOrder: string[],
+  jrRecords: Record<string, ExcelJS.CellValue>[],
+) {
+  const layout = resolveCandidateLayout(headerOrder);
+
+  // VLOOKUP แบบ exact match: ไม่สนตัวพิมพ์, เอาแถวแรกที่เจอ
+  const jrByNo = new Map<string, Map<string, ExcelJS.CellValue>>();
+  for (const rec of jrRecords) {
+    const jrNo = jrRecordKey(rec).toLowerCase();
+    if (!jrNo || jrByNo.has(jrNo)) continue;
+    jrByNo.set(
+      jrNo,
+      new Map(Object.entries(rec).map(([h, v]) => [normalizeHeader(h), v])),
+    );
+  }
 
-    const cellTurndownDate = ws.getCell(r, 32);
-    cellTurndownDate.dataValidation = {
-      type: "date",
-      operator: "greaterThan",
-      showErrorMessage: true,
-      errorTitle: "Date Only",
-      error: "กรุณากรอกวันที่ Turndown",
-      formulae: [new Date("2020-01-01")],
+  let written = 0;
+  for (let r = 2; r <= lastDataRow; r++) {
+    const computed = new Map<string, CachedResult>();
+    const value = (header: string): CachedResult => {
+      if (computed.has(header)) return computed.get(header)!;
+      const c = layout.col(header);
+      return c ? toCachedResult(ws.getCell(r, c).value) : "";
+    };
+    const setResult = (header: string, result: CachedResult) => {
+      computed.set(header, result);
+      const c = layout.col(header);
+      if (!c) return;
+      const cell = ws.getCell(r, c);
+      const v = cell.value;
+      if (!isFormulaValue(v)) return;
+      cell.value = { ...v, result } as ExcelJS.CellFormulaValue;
+      written++;
     };
-    cellTurndownDate.numFmt = "d mmm yyyy";
 
-    ws.getCell(r, 40).dataValidation = {
-      type: "list",
-      allowBlank: true,
-      formulae: [GROUP_DROPDOWN_LIST],
+    // A. JR Lookups (ช่องว่างใน JR_Detail -> "")
+    const jr = jrByNo.get(safeStr(value(JR_NO_ALIAS)).toLowerCase());
+    for (const h of CANDIDATE_JR_LOOKUP_COLS)
+      setResult(h, jr ? toCachedResult(jr.get(normalizeHeader(h))) : "");
+
+    // B. Candidate Status
+    let status = "";
+    if (safeStr(value(CANDIDATE_COL.turndownReason))) status = "Turndown";
+    else {
+      for (const h of CANDIDATE_STAGE_COLS) {
+        if (safeStr(value(h))) {
+          const c = layout.col(h);
+          status = c ? excelCellValueToString(ws.getCell(1, c).value) : h;
+        }
+      }
+    }
+    setResult(CANDIDATE_COL.status, status);
+
+    // C. SLA by Level (SEARCH / = ของ Excel ไม่สนตัวพิมพ์)
+    const position = safeStr(value(CANDIDATE_COL.position)).toLowerCase();
+    const level = safeStr(value(CANDIDATE_COL.level)).toLowerCase();
+    const rule = CONFIG.slaRules.find(
+      (x) =>
+        (x.positionContains ?? []).some((p) =>
+          position.includes(p.toLowerCase()),
+        ) || (x.levels ?? []).some((l) => level === l.toLowerCase()),
+    );
+    setResult(CANDIDATE_COL.sla, rule ? rule.days : CONFIG.slaDefaultDays);
+
+    // D. Day to X
+    const created = excelNumberValue(value(CANDIDATE_COL.createdDate));
+    const dayTo = (stages: string[]): CachedResult => {
+      for (const h of stages) {
+        const v = value(h);
+        if (!safeStr(v)) continue;
+        const stage = excelNumberValue(v);
+        if (stage === null || created === null) return "";
+        return Math.round((stage - created) * 1e6) / 1e6;
+      }
+      return "";
     };
+    setResult(CANDIDATE_COL.dayToShortlist, dayTo([CANDIDATE_COL.shortlist]));
+    setResult(
+      CANDIDATE_COL.dayToInterview,
+      dayTo([
+        CANDIDATE_COL.interviewFinal,
+        CANDIDATE_COL.interview2,
+        CANDIDATE_COL.interview1,
+      ]),
+    );
+    setResult(CANDIDATE_COL.dayToOffer, dayTo([CANDIDATE_COL.offer]));
+    setResult(CANDIDATE_COL.dayToHire, dayTo([CANDIDATE_COL.hire]));
+    setResult(CANDIDATE_COL.dayToOnboarding, dayTo([CANDIDATE_COL.onboarding]));
   }
-
-  return {
-    lastDataRow,
-    inserted: insertedCount,
-    updated: updatedCount,
-    originalCount,
-  };
+  return written;
 }
 
 function applyCandidateFormattingWithExcelJS(
   ws: ExcelJS.Worksheet,
   lastRow: number,
+  lastCol: number,
+  headerOrder: string[],
 ) {
-  const maxCol = Math.min(CANDIDATE_MAX_COLUMNS, ws.columnCount);
+  const maxCol = Math.min(lastCol, ws.columnCount);
   const endRow = Math.max(1, lastRow);
   for (let c = 1; c <= maxCol; c++) ws.getColumn(c).width = CANDIDATE_WIDTH;
   const thinBorder: Partial<ExcelJS.Borders> = {
@@ -573,39 +1970,31 @@ function applyCandidateFormattingWithExcelJS(
   for (let r = 1; r <= endRow; r++) {
     for (let c = 1; c <= maxCol; c++) ws.getCell(r, c).border = thinBorder;
   }
-  const fillHeader = (from: number, to: number, argb: string) => {
-    const end = Math.min(to, maxCol);
-    for (let c = from; c <= end; c++)
-      ws.getCell(1, c).fill = {
-        type: "pattern",
-        pattern: "solid",
-        fgColor: { argb },
-      };
-  };
-  fillHeader(1, 10, HEADER_COLOR_A_J);
-  fillHeader(11, 11, HEADER_COLOR_K_V_AF);
-  fillHeader(22, 33, HEADER_COLOR_K_V_AF);
-  fillHeader(12, 21, HEADER_COLOR_L_U_AG_AL);
-  fillHeader(34, 39, HEADER_COLOR_L_U_AG_AL);
-  fillHeader(40, 40, HEADER_COLOR_K_V_AF);
 
   ws.getRow(1).height = 32;
   const WHITE = "FFFFFFFF";
   const BLACK = "FF000000";
 
-  function headerFontColorByCol(col: number) {
-    if (
-      (col >= 1 && col <= 10) ||
-      col === 11 ||
-      (col >= 22 && col <= 33) ||
-      col === 40
-    )
-      return WHITE;
-    return BLACK;
+  const baseCols: ReadonlySet<string> = new Set(CANDIDATE_BASE_COLS);
+  function headerGroupByCol(col: number) {
+    const h = normalizeHeader(headerOrder[col - 1]);
+    if (baseCols.has(h)) return { fill: HEADER_COLOR_BASE, font: WHITE };
+    if (CANDIDATE_INPUT_HEADER_COLS.has(h))
+      return { fill: HEADER_COLOR_INPUT, font: WHITE };
+    if (CANDIDATE_LOOKUP_HEADER_COLS.has(h))
+      return { fill: HEADER_COLOR_LOOKUP, font: BLACK };
+    return { fill: undefined, font: BLACK };
   }
 
   for (let c = 1; c <= maxCol; c++) {
     const cell = ws.getCell(1, c);
+    const group = headerGroupByCol(c);
+    if (group.fill)
+      cell.fill = {
+        type: "pattern",
+        pattern: "solid",
+        fgColor: { argb: group.fill },
+      };
     cell.alignment = {
       vertical: "middle",
       horizontal: "center",
@@ -615,7 +2004,7 @@ function applyCandidateFormattingWithExcelJS(
       ...(cell.font ?? {}),
       bold: true,
       size: 14,
-      color: { argb: headerFontColorByCol(c) },
+      color: { argb: group.font },
     };
   }
 
@@ -626,163 +2015,1403 @@ function applyCandidateFormattingWithExcelJS(
   ws.autoFilter = { from: "A1", to: `${lastColLetter}1` };
 }
 
-function rewriteJRSheetWithExcelJS(
+// แปลงคอลัมน์วันที่ของ JR ทุกแถว (in place) + เก็บค่าที่อ่านไม่ได้
+function normalizeJRRows(rows: Record<string, any>[], headers: string[]) {
+  const issues: ValidationIssue[] = [];
+  for (const row of rows) {
+    const sourceRow = Number((row as any).__rowNum__ ?? -1) + 1;
+    for (const x of normalizeDateColumns(row, headers))
+      issues.push({ source: "JR", sourceRow, key: jrRecordKey(row), ...x });
+  }
+  return issues;
+}
+
+// Upsert JR_Detail ตาม JR No.: อัปเดตเฉพาะคอลัมน์จาก export, คอลัมน์/โน้ตที่ผู้ใช้เพิ่มเองไม่ถูกแตะ
+// คืน header ตามตำแหน่งคอลัมน์จริงของชีต (ใช้สร้าง VLOOKUP ใน candidate_master)
+function upsertJRSheetWithExcelJS(
   wb: ExcelJS.Workbook,
   headers: string[],
   rows: Record<string, any>[],
 ) {
-  const old = wb.getWorksheet(SHEET_JR);
-  if (old) wb.removeWorksheet(old.id);
-  const ws = wb.addWorksheet(SHEET_JR);
-
-  const cols = headers.length ? headers : ["_"];
-
-  for (let c = 1; c <= cols.length; c++) ws.getCell(1, c).value = cols[c - 1];
-
-  for (let i = 0; i < rows.length; i++) {
-    for (let c = 1; c <= cols.length; c++) {
-      const headerName = cols[c - 1];
-      let val = rows[i][headerName];
-
-      if (
-        (headerName.includes("Date") || headerName.includes("วันที่")) &&
-        typeof val === "string" &&
-        /^\d{1,2}\/\d{1,2}\/\d{4}$/.test(val)
-      ) {
-        try {
-          const parts = val.split("/");
-          const dateObj = new Date(
-            parseInt(parts[2]),
-            parseInt(parts[1]) - 1,
-            parseInt(parts[0]),
-          );
-          if (!isNaN(dateObj.getTime())) val = dateObj;
-        } catch {
-          /* ignore */
-        }
-      }
+  const ws = wb.getWorksheet(SHEET_JR) ?? wb.addWorksheet(SHEET_JR);
+
+  const colByHeader = new Map<string, number>();
+  let lastCol = 0;
+  for (let c = 1; c <= ws.columnCount; c++) {
+    const h = normalizeHeader(excelCellValueToString(ws.getCell(1, c).value));
+    if (!h) continue;
+    if (!colByHeader.has(h)) colByHeader.set(h, c);
+    lastCol = c;
+  }
+  const ensureCol = (header: string) => {
+    const h = normalizeHeader(header);
+    let c = colByHeader.get(h);
+    if (!c) {
+      c = ++lastCol;
+      ws.getCell(1, c).value = header;
+      colByHeader.set(h, c);
+    }
+    return c;
+  };
+  const exportCols = headers.map((h) => ({ h, c: ensureCol(h) }));
+  const statusCol = ensureCol(JR_EXPORT_STATUS_COL);
+  const keyCol = colByHeader.get(JR_NO_ALIAS) ?? colByHeader.get(JR_KEY);
+  if (!keyCol)
+    throw new Error(
+      `ไม่พบคอลัมน์ key "${JR_KEY}" หรือ "${JR_NO_ALIAS}" ใน ${SHEET_JR}`,
+    );
+
+  // Scan Existing Rows
+  const keyToRow = new Map<string, number>();
+  let lastDataRow = 1;
+  for (let r = 2; r <= ws.rowCount; r++) {
+    const key = excelCellValueToString(ws.getCell(r, keyCol).value);
+    if (key && !keyToRow.has(key)) keyToRow.set(key, r);
+    if (key) lastDataRow = r;
+  }
+
+  let added = 0;
+  let updated = 0;
+  const seen = new Set<string>();
+  for (const row of rows) {
+    const key = jrRecordKey(row);
+    if (!key) continue;
 
-      const cell = ws.getCell(i + 2, c);
+    let r = keyToRow.get(key);
+    if (!r) {
+      r = ++lastDataRow;
+      keyToRow.set(key, r);
+      added++;
+    } else if (!seen.has(key)) {
+      updated++;
+    }
+    seen.add(key);
+
+    for (const { h, c } of exportCols) {
+      const val = row[h];
+      const cell = ws.getCell(r, c);
       cell.value = val ?? "";
       if (val instanceof Date) cell.numFmt = "d mmm yyyy";
     }
+    ws.getCell(r, statusCol).value = "";
   }
-}
 
-function cleanHeaderForDetection(h: string) {
-  return String(h || "")
-    .replace(/\uFEFF/g, "")
-    .replace(/[\u200B-\u200D\uFEFF]/g, "")
-    .replace(/\s+/g, "")
-    .trim();
-}
+  let notInExport = 0;
+  for (const [key, r] of keyToRow) {
+    if (seen.has(key)) continue;
+    ws.getCell(r, statusCol).value = JR_NOT_IN_EXPORT;
+    notInExport++;
+  }
 
-function detectTypeByHeaders(headers: string[]) {
-  const cleaned = headers.map(cleanHeaderForDetection);
-  const hs = new Set(cleaned);
-  const isCandidate = hs.has("รหัสบัตรประชาชน");
-  const isJR = hs.has("รหัสใบร้องขอ/ID") || hs.has("JRNo.") || hs.has("JRNo");
-  if (isCandidate && isJR) return "BOTH";
-  if (isCandidate) return "CANDIDATE";
-  if (isJR) return "JR";
-  return "UNKNOWN";
+  const sheetHeaders: string[] = [];
+  for (let c = 1; c <= lastCol; c++)
+    sheetHeaders.push(excelCellValueToString(ws.getCell(1, c).value));
+
+  return {
+    headers: sheetHeaders,
+    total: keyToRow.size,
+    added,
+    updated,
+    notInExport,
+  };
 }
 
-async function listExcelFiles(dir: string) {
-  const items = await fsp.readdir(dir, { withFileTypes: true });
-  const files: string[] = [];
-  for (const it of items) {
-    if (!it.isFile()) continue;
-    const ext = path.extname(it.name).toLowerCase();
-    if (ext === ".xlsx" || ext === ".xls") files.push(path.join(dir, it.name));
+// อ่าน JR_Detail เดิม (ก่อน rewrite) เป็น record ต่อแถว
+function readJRSheetRecords(wb: ExcelJS.Workbook) {
+  const ws = wb.getWorksheet(SHEET_JR);
+  const records: Record<string, ExcelJS.CellValue>[] = [];
+  if (!ws) return records;
+  const headers: string[] = [];
+  for (let c = 1; c <= ws.columnCount; c++)
+    headers.push(excelCellValueToString(ws.getCell(1, c).value));
+  for (let r = 2; r <= ws.rowCount; r++) {
+    const rec: Record<string, ExcelJS.CellValue> = {};
+    let hasData = false;
+    headers.forEach((h, i) => {
+      if (!h) return;
+      const v = ws.getCell(r, i + 1).value;
+      rec[h] = v;
+      if (excelCellValueToString(v)) hasData = true;
+    });
+    if (hasData) records.push(rec);
   }
-  return files;
+  return records;
 }
 
-async function pickLatestByType(inDir: string) {
-  const files = await listExcelFiles(inDir);
-  const candidates: { file: string; mtime: number }[] = [];
-  const jrs: { file: string; mtime: number }[] = [];
-  for (const f of files) {
-    try {
-      const stat = await fsp.stat(f);
-      const wb = readWorkbook(f);
-      const firstSheet = wb.SheetNames[0];
-      const { type: t, headers } = findHeaderRowInfo(wb, firstSheet);
-      console.log(`Checking file: ${path.basename(f)}`);
-      console.log(` - Detected Type: ${t}`);
-      console.log(
-        ` - Raw Headers (sample): ${headers
-          .slice(0, 5)
-          .map((h) => `'${h}'`)
-          .join(", ")}`,
-      );
-      if (t === "CANDIDATE") candidates.push({ file: f, mtime: stat.mtimeMs });
-      else if (t === "JR") jrs.push({ file: f, mtime: stat.mtimeMs });
-      else if (t === "BOTH") {
-        const name = path.basename(f).toLowerCase();
-        if (name.includes("candidate"))
-          candidates.push({ file: f, mtime: stat.mtimeMs });
-        if (name.includes("jr")) jrs.push({ file: f, mtime: stat.mtimeMs });
-      }
-    } catch (e) {
-      console.log(`Warning: Failed to read file ${path.basename(f)} - ${e}`);
-    }
-  }
-  candidates.sort((a, b) => b.mtime - a.mtime);
-  jrs.sort((a, b) => b.mtime - a.mtime);
-  return { candidateFile: candidates[0]?.file, jrFile: jrs[0]?.file };
+function jrRecordKey(rec: Record<string, any>) {
+  return excelCellValueToString(rec[JR_NO_ALIAS] ?? rec[JR_KEY] ?? "");
 }
 
-function readAllRowsFromFirstSheet(filePath: string) {
-  const wb = readWorkbook(filePath);
-  const sheetName = wb.SheetNames[0];
-  const { headerRow } = findHeaderRowInfo(wb, sheetName);
-  const rows = sheetToObjects(wb, sheetName, { headerRow });
-  return { wb, sheetName, rows, headerRow };
+function diffJRRows(
+  before: Record<string, ExcelJS.CellValue>[],
+  headers: string[],
+  after: Record<string, any>[],
+) {
+  const changes: JRChange[] = [];
+  const beforeByKey = new Map<string, Record<string, ExcelJS.CellValue>>();
+  for (const rec of before) {
+    const key = jrRecordKey(rec);
+    if (key) beforeByKey.set(key, rec);
+  }
+  const seen = new Set<string>();
+  for (const rec of after) {
+    const jrNo = jrRecordKey(rec);
+    if (!jrNo || seen.has(jrNo)) continue;
+    seen.add(jrNo);
+    const old = beforeByKey.get(jrNo);
+    if (!old) {
+      changes.push({
+        jrNo,
+        change: "added",
+        column: "",
+        oldValue: "",
+        newValue: "",
+      });
+      continue;
+    }
+    for (const h of headers) {
+      const oldValue = excelCellValueToString(old[h] ?? "");
+      const newValue = excelCellValueToString(rec[h] ?? "");
+      if (oldValue !== newValue)
+        changes.push({
+          jrNo,
+          change: "changed",
+          column: h,
+          oldValue,
+          newValue,
+        });
+    }
+  }
+  for (const jrNo of beforeByKey.keys()) {
+    if (!seen.has(jrNo))
+      changes.push({
+        jrNo,
+        change: "not in latest export",
+        column: "",
+        oldValue: "",
+        newValue: "",
+      });
+  }
+  return changes;
 }
 
-async function mainWrapper() {
+// =========================================================
+// JR_History: ต่อท้ายเมื่อ JR ใหม่ หรือสถานะ/ผู้รับผิดชอบเปลี่ยนจากไฟล์เดิม
+// =========================================================
+function appendJRHistory(
+  wb: ExcelJS.Workbook,
+  before: Record<string, ExcelJS.CellValue>[],
+  rows: Record<string, any>[],
+  runAt: Date,
+) {
+  const beforeByKey = new Map<string, Record<string, ExcelJS.CellValue>>();
+  for (const rec of before) {
+    const key = jrRecordKey(rec);
+    if (key) beforeByKey.set(key, rec);
+  }
+
+  let ws = wb.getWorksheet(SHEET_JR_HISTORY);
+  if (!ws) {
+    ws = wb.addWorksheet(SHEET_JR_HISTORY);
+    ws.addRow(JR_HISTORY_HEADERS);
+    ws.getRow(1).font = { bold: true };
+    ws.views = [{ state: "frozen", ySplit: 1 }];
+    JR_HISTORY_HEADERS.forEach((_h, i) => (ws!.getColumn(i + 1).width = 24));
+  }
+
+  const seen = new Set<string>();
+  let appended = 0;
+  for (const rec of rows) {
+    const jrNo = jrRecordKey(rec);
+    if (!jrNo || seen.has(jrNo)) continue;
+    seen.add(jrNo);
+
+    const status = excelCellValueToString(rec[JR_STATUS_COL] ?? "");
+    const manager = excelCellValueToString(rec[JR_MANAGER_COL] ?? "");
+    const old = beforeByKey.get(jrNo);
+    const oldStatus = old
+      ? excelCellValueToString(old[JR_STATUS_COL] ?? "")
+      : "";
+    const oldManager = old
+      ? excelCellValueToString(old[JR_MANAGER_COL] ?? "")
+      : "";
+    if (old && status === oldStatus && manager === oldManager) continue;
+
+    const statusDate = rec[JR_STATUS_DATE_COL];
+    const row = ws.addRow([
+      runAt,
+      jrNo,
+      status,
+      statusDate instanceof Date ? statusDate : safeStr(statusDate),
+      manager,
+      oldStatus,
+      oldManager,
+    ]);
+    row.getCell(1).numFmt = "yyyy-mm-dd hh:mm:ss";
+    if (statusDate instanceof Date) row.getCell(4).numFmt = "d mmm yyyy";
+    appended++;
+  }
+  return appended;
+}
+
+// =========================================================
+// Data_Issues: ความสัมพันธ์ candidate <-> JR ที่ผิดปกติ (เขียนใหม่ทุกครั้ง)
+// =========================================================
+type DataIssueKind =
+  | "Missing JR No."
+  | "Unknown JR No."
+  | "JR without candidates"
+  | "Closed JR, open candidate";
+
+type DataIssue = {
+  kind: DataIssueKind;
+  row: number | "";
+  nationalId: string;
+  name: string;
+  jrNo: string;
+  detail: string;
+};
+
+function isClosedJrStatus(status: string) {
+  const s = status.toLowerCase();
+  return (
+    !!s && CONFIG.closedJrStatuses.some((x) => x && s.includes(x.toLowerCase()))
+  );
+}
+
+// ยังอยู่ใน pipeline = ยังไม่ hire/onboard และยังไม่ turndown (เกณฑ์เดียวกับ dashboard)
+function isOpenCandidate(get: (header: string) => string) {
+  if (get(CANDIDATE_COL.hire) || get(CANDIDATE_COL.onboarding)) return false;
+  if (get(CANDIDATE_COL.turndownReason) || get(CANDIDATE_COL.turndownDate))
+    return false;
+  const status = get(CANDIDATE_COL.status).toLowerCase();
+  return !["hire", "onboard", "declin", "reject", "turndown"].some((x) =>
+    status.includes(x),
+  );
+}
+
+function collectDataIssues(
+  ws: ExcelJS.Worksheet,
+  lastDataRow: number,
+  headerOrder: string[],
+  jrRecords: Record<string, ExcelJS.CellValue>[],
+) {
+  const layout = resolveCandidateLayout(headerOrder);
+  // จับคู่ JR No. แบบเดียวกับ VLOOKUP: ตัดช่องว่างและไม่สนตัวพิมพ์
+  const jrKey = (jrNo: string) => jrNo.trim().toLowerCase();
+  const jrStatus = new Map<string, { jrNo: string; status: string }>();
+  for (const rec of jrRecords) {
+    const jrNo = jrRecordKey(rec).trim();
+    if (jrNo && !jrStatus.has(jrKey(jrNo)))
+      jrStatus.set(jrKey(jrNo), {
+        jrNo,
+        status: excelCellValueToString(rec[JR_STATUS_COL] ?? ""),
+      });
+  }
+
+  const issues: DataIssue[] = [];
+  const candidateCount = new Map<string, number>();
+  for (let r = 2; r <= lastDataRow; r++) {
+    const get = (header: string) => {
+      const c = layout.col(header);
+      return c ? excelCellValueToString(ws.getCell(r, c).value) : "";
+    };
+    const nationalId = get(CANDIDATE_KEY);
+    if (!nationalId) continue;
+    const jrNo = get(JR_NO_ALIAS);
+    const base = {
+      row: r,
+      nationalId,
+      name: [get("ชื่อ (ไทย)"), get("สกุล (ไทย)")].filter(Boolean).join(" "),
+      jrNo,
+    };
+
+    if (!jrNo) {
+      issues.push({ ...base, kind: "Missing JR No.", detail: "" });
+      continue;
+    }
+    const key = jrKey(jrNo);
+    candidateCount.set(key, (candidateCount.get(key) ?? 0) + 1);
+    const status = jrStatus.get(key)?.status;
+    if (status === undefined) {
+      issues.push({
+        ...base,
+        kind: "Unknown JR No.",
+        detail: `ไม่พบใน ${SHEET_JR}`,
+      });
+    } else if (isClosedJrStatus(status) && isOpenCandidate(get)) {
+      const candStatus = get(CANDIDATE_COL.status);
+      issues.push({
+        ...base,
+        kind: "Closed JR, open candidate",
+        detail: `JR: ${status}; Candidate: ${candStatus || "(ว่าง)"}`,
+      });
+    }
+  }
+
+  for (const [key, { jrNo, status }] of jrStatus) {
+    if (candidateCount.has(key)) continue;
+    issues.push({
+      kind: "JR without candidates",
+      row: "",
+      nationalId: "",
+      name: "",
+      jrNo,
+      detail: status ? `JR: ${status}` : "",
+    });
+  }
+
+  issues.sort(
+    (a, b) =>
+      DATA_ISSUE_KINDS.indexOf(a.kind) - DATA_ISSUE_KINDS.indexOf(b.kind),
+  );
+  return issues;
+}
+
+function dataIssueRows(issues: DataIssue[]) {
+  return issues.map((x) => [
+    x.kind,
+    x.row,
+    x.nationalId,
+    x.name,
+    x.jrNo,
+    x.detail,
+  ]);
+}
+
+function rewriteDataIssuesSheet(wb: ExcelJS.Workbook, issues: DataIssue[]) {
+  const old = wb.getWorksheet(SHEET_DATA_ISSUES);
+  if (old) wb.removeWorksheet(old.id);
+  if (!issues.length) return;
+  addReportSheet(
+    wb,
+    SHEET_DATA_ISSUES,
+    DATA_ISSUE_HEADERS,
+    dataIssueRows(issues),
+  );
+}
+
+function logDataIssueSummary(issues: DataIssue[]) {
+  console.log(` - 🔗 Data Issues         : ${issues.length}`);
+  for (const kind of DATA_ISSUE_KINDS) {
+    const n = issues.filter((x) => x.kind === kind).length;
+    if (n) console.log(`   - ${kind}: ${n}`);
+  }
+}
+
+// =========================================================
+// Change_Log: ประวัติการแก้ base data (ต่อท้ายทุกครั้งที่รัน)
+// =========================================================
+function appendChangeLog(
+  wb: ExcelJS.Workbook,
+  changes: CandidateCellChange[],
+  runAt: Date,
+  user: string,
+) {
+  let ws = wb.getWorksheet(SHEET_CHANGE_LOG);
+  if (!ws) {
+    ws = wb.addWorksheet(SHEET_CHANGE_LOG);
+    ws.addRow(CHANGE_LOG_HEADERS);
+    ws.getRow(1).font = { bold: true };
+    ws.views = [{ state: "frozen", ySplit: 1 }];
+    CHANGE_LOG_HEADERS.forEach((_h, i) => (ws!.getColumn(i + 1).width = 24));
+  }
+
+  // ข้อมูลส่วนตัวซ้ำกันทุกแถวของคนเดียวกัน -> log ครั้งเดียวต่อคน/คอลัมน์
+  const seen = new Set<string>();
+  let appended = 0;
+  for (const x of changes) {
+    const k = [x.nationalId, x.column, x.oldValue, x.newValue].join("\u0000");
+    if (seen.has(k)) continue;
+    seen.add(k);
+    const row = ws.addRow([
+      runAt,
+      user,
+      x.nationalId,
+      x.column,
+      x.oldValue,
+      x.newValue,
+    ]);
+    row.getCell(1).numFmt = "yyyy-mm-dd hh:mm:ss";
+    appended++;
+  }
+  return appended;
+}
+
+// =========================================================
+// Dry-run report (xlsx แยกไฟล์ ไม่แตะไฟล์ tracking)
+// =========================================================
+function addReportSheet(
+  wb: ExcelJS.Workbook,
+  name: string,
+  headers: string[],
+  rows: Array<Array<string | number | Date>>,
+) {
+  const ws = wb.addWorksheet(name);
+  ws.addRow(headers);
+  for (const r of rows) ws.addRow(r);
+  ws.getRow(1).font = { bold: true };
+  ws.views = [{ state: "frozen", ySplit: 1 }];
+  headers.forEach((_h, i) => (ws.getColumn(i + 1).width = 24));
+}
+
+async function writeDryRunReport(
+  reportPath: string,
+  stats: {
+    insertedRows: CandidateInsert[];
+    cellChanges: CandidateCellChange[];
+  },
+  jrChanges: JRChange[],
+  quarantined: QuarantinedRow[],
+  issues: ValidationIssue[],
+  dataIssues: DataIssue[],
+  missing: MissingCandidate[],
+) {
+  const wb = new ExcelJS.Workbook();
+  addReportSheet(
+    wb,
+    "Inserted",
+    ["Row", CANDIDATE_KEY, JR_NO_ALIAS, "Name"],
+    stats.insertedRows.map((x) => [x.row, x.nationalId, x.jrNo, x.name]),
+  );
+  addReportSheet(
+    wb,
+    "Updated Cells",
+    ["Row", CANDIDATE_KEY, JR_NO_ALIAS, "Column", "Old Value", "New Value"],
+    stats.cellChanges.map((x) => [
+      x.row,
+      x.nationalId,
+      x.jrNo,
+      x.column,
+      x.oldValue,
+      x.newValue,
+    ]),
+  );
+  addReportSheet(
+    wb,
+    "JR Changes",
+    [JR_NO_ALIAS, "Change", "Column", "Old Value", "New Value"],
+    jrChanges.map((x) => [x.jrNo, x.change, x.column, x.oldValue, x.newValue]),
+  );
+  addReportSheet(
+    wb,
+    SHEET_QUARANTINE,
+    ["Source Row", "Reason", CANDIDATE_KEY, JR_NO_ALIAS],
+    quarantined.map((q) => [
+      q.sourceRow,
+      q.reason,
+      safeStr(q.row[CANDIDATE_KEY]),
+      safeStr(q.row[JR_NO_ALIAS]),
+    ]),
+  );
+  addReportSheet(
+    wb,
+    SHEET_VALIDATION,
+    VALIDATION_HEADERS,
+    validationIssueRows(issues),
+  );
+  addReportSheet(
+    wb,
+    SHEET_DATA_ISSUES,
+    DATA_ISSUE_HEADERS,
+    dataIssueRows(dataIssues),
+  );
+  addReportSheet(
+    wb,
+    "Not In Source",
+    ["Row", CANDIDATE_KEY, JR_NO_ALIAS, "Name", CANDIDATE_NOT_IN_SOURCE_COL],
+    missing.map((x) => [x.row, x.nationalId, x.jrNo, x.name, x.since]),
+  );
+  await ensureDir(path.dirname(reportPath));
+  await wb.xlsx.writeFile(reportPath);
+}
+
+function cleanHeaderForDetection(h: string) {
+  return String(h || "")
+    .replace(/\uFEFF/g, "")
+    .replace(/[\u200B-\u200D\uFEFF]/g, "")
+    .replace(/\s+/g, "")
+    .trim();
+}
+
+function headerAliasKey(h: string) {
+  return cleanHeaderForDetection(h).toLowerCase();
+}
+
+function canonicalHeader(h: string) {
+  return HEADER_ALIASES.get(headerAliasKey(h)) ?? h;
+}
+
+function detectTypeByHeaders(
+  headers: string[],
+): "CANDIDATE" | "JR" | "BOTH" | "UNKNOWN" {
+  const cleaned = headers.map(canonicalHeader).map(cleanHeaderForDetection);
+  const hs = new Set(cleaned);
+  const isCandidate = hs.has("รหัสบัตรประชาชน");
+  const isJR = hs.has("รหัสใบร้องขอ/ID") || hs.has("JRNo.") || hs.has("JRNo");
+  if (isCandidate && isJR) return "BOTH";
+  if (isCandidate) return "CANDIDATE";
+  if (isJR) return "JR";
+  return "UNKNOWN";
+}
+
+async function listInputFiles(dir: string) {
+  const items = await fsp.readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+  for (const it of items) {
+    if (!it.isFile() || it.name.startsWith("~$")) continue;
+    const ext = path.extname(it.name).toLowerCase();
+    if (INPUT_EXTENSIONS.includes(ext)) files.push(path.join(dir, it.name));
+  }
+  return files;
+}
+
+// glob ชื่อไฟล์แบบง่าย: * และ ? (ไม่สนตัวพิมพ์ เหมือน Windows)
+function globToRegExp(glob: string) {
+  const pattern = glob
+    .split("")
+    .map((ch) =>
+      ch === "*"
+        ? ".*"
+        : ch === "?"
+          ? "."
+          : ch.replace(/[.+^${}()|[\]\\]/g, "\\$&"),
+    )
+    .join("");
+  return new RegExp(`^${pattern}$`, "i");
+}
+
+// ชีตที่เลือกใช้เป็น input (1 ไฟล์อาจให้ได้ทั้ง Candidate และ JR)
+type InputPick = {
+  file: string;
+  mtime: number;
+  sheetName: string;
+  headerRow: number;
+  type: "CANDIDATE" | "JR" | "BOTH";
+  rowCount: number;
+};
+
+// สแกนทุกชีตของไฟล์ (หน้าแรกอาจเป็น cover / filter summary)
+async function scanInputFile(f: string) {
+  const stat = await fsp.stat(f);
+  const wb = readWorkbook(f);
+  const encoding =
+    path.extname(f).toLowerCase() === ".csv"
+      ? ` (${detectCsvEncoding(fs.readFileSync(f))})`
+      : "";
+  console.log(`Checking file: ${path.basename(f)}${encoding}`);
+
+  let candPick: InputPick | undefined;
+  let jrPick: InputPick | undefined;
+  const bothPicks: InputPick[] = [];
+  for (const sheetName of wb.SheetNames) {
+    const { type: t, headers, headerRow } = findHeaderRowInfo(wb, sheetName);
+    console.log(` - Sheet '${sheetName}': ${t} (header row ${headerRow + 1})`);
+    if (t === "UNKNOWN") continue;
+    console.log(
+      `   Raw Headers (sample): ${headers
+        .slice(0, 5)
+        .map((h) => `'${h}'`)
+        .join(", ")}`,
+    );
+    const rowCount = sheetToObjects(wb, sheetName, { headerRow }).length;
+    const pick: InputPick = {
+      file: f,
+      mtime: stat.mtimeMs,
+      sheetName,
+      headerRow,
+      type: t,
+      rowCount,
+    };
+    if (t === "CANDIDATE") candPick ??= pick;
+    else if (t === "JR") jrPick ??= pick;
+    else bothPicks.push(pick);
+  }
+
+  // ชีตที่มีทั้ง 2 key: มีชีต JR แยกอยู่แล้ว = ชีต candidate, ไม่งั้นเดาจากชื่อไฟล์
+  const name = path.basename(f).toLowerCase();
+  const unresolved: InputPick[] = [];
+  for (const pick of bothPicks) {
+    if (!candPick && (jrPick || name.includes("candidate"))) candPick = pick;
+    else if (!jrPick && name.includes("jr")) jrPick = pick;
+    else unresolved.push(pick);
+  }
+
+  if (candPick)
+    console.log(
+      ` - ✔ Candidate: sheet '${candPick.sheetName}', header row ${candPick.headerRow + 1}`,
+    );
+  if (jrPick)
+    console.log(
+      ` - ✔ JR: sheet '${jrPick.sheetName}', header row ${jrPick.headerRow + 1}`,
+    );
+  return { candPick, jrPick, unresolved };
+}
+
+async function pickLatestByType(inDir: string, glob?: string) {
+  let files = await listInputFiles(inDir);
+  if (glob) {
+    const matcher = globToRegExp(glob);
+    files = files.filter((f) => matcher.test(path.basename(f)));
+  }
+  const candidates: InputPick[] = [];
+  const jrs: InputPick[] = [];
+  // ชีต BOTH ที่เดาไม่ได้ว่าเป็นอะไร: ใช้เป็นตัวเลือกใน picker
+  const unresolved: InputPick[] = [];
+  for (const f of files) {
+    try {
+      const scan = await scanInputFile(f);
+      if (scan.candPick) candidates.push(scan.candPick);
+      if (scan.jrPick) jrs.push(scan.jrPick);
+      unresolved.push(...scan.unresolved);
+    } catch (e) {
+      console.log(`Warning: Failed to read file ${path.basename(f)} - ${e}`);
+    }
+  }
+  const byNewest = (a: InputPick, b: InputPick) => b.mtime - a.mtime;
+  candidates.sort(byNewest);
+  jrs.sort(byNewest);
+  unresolved.sort(byNewest);
+  return {
+    // ไม่มีชีต Candidate ชัดเจน ใช้ชีต BOTH ล่าสุดแทน (ส่วนใหญ่ export candidate มี JR No.)
+    candidate: (candidates[0] ?? unresolved[0]) as InputPick | undefined,
+    jr: jrs[0] as InputPick | undefined,
+    // --merge: ชีต BOTH ที่เดาไม่ได้ถือเป็นข้อมูล candidate ด้วย (เหตุผลเดียวกับด้านบน)
+    candidateFiles: [...candidates, ...unresolved].sort(byNewest),
+    jrFiles: jrs,
+    candidateOptions: [...candidates, ...unresolved],
+    jrOptions: [...jrs, ...unresolved],
+  };
+}
+
+// --candidate <file> / --jr <file>: path ตาม cwd หรือชื่อไฟล์ใน IN_DIR
+async function pickExplicitInput(file: string, kind: "CANDIDATE" | "JR") {
+  let filePath = path.resolve(file);
+  if (!(await fileExists(filePath)) && !path.isAbsolute(file))
+    filePath = path.join(IN_DIR, file);
+  if (!(await fileExists(filePath)))
+    throw new CombineError(
+      `ไม่พบไฟล์ ${kind} ที่ระบุ: ${file}`,
+      EXIT_CODE.noInput,
+    );
+  const { candPick, jrPick, unresolved } = await scanInputFile(filePath);
+  const pick =
+    (kind === "CANDIDATE" ? candPick : jrPick) ??
+    unresolved[0] ??
+    (kind === "JR" && candPick?.type === "BOTH" ? candPick : undefined);
+  if (!pick) {
+    const key =
+      kind === "CANDIDATE"
+        ? `"${CANDIDATE_KEY}"`
+        : `"${JR_KEY}" หรือ "${JR_NO_ALIAS}"`;
+    throw new CombineError(
+      `ไฟล์ ${path.basename(filePath)} ไม่มีชีตที่มีคอลัมน์ ${key}`,
+      EXIT_CODE.noInput,
+    );
+  }
+  return pick;
+}
+
+// เลือกไฟล์เองเมื่อมีหลายตัวเลือก (หรือมีแต่ชีต BOTH) และมี TTY, ไม่งั้นใช้ default
+async function chooseInput(
+  label: string,
+  options: InputPick[],
+  fallback: InputPick | undefined,
+) {
+  if (options.length < 2 && (fallback || !options.length)) return fallback;
+  if (!process.stdin.isTTY || NON_INTERACTIVE || WATCH) return fallback;
+
+  const defaultIdx = fallback ? options.indexOf(fallback) : -1;
+  console.log(`❓ มีไฟล์ ${label} ให้เลือกหลายไฟล์:`);
+  for (const [i, o] of options.entries()) {
+    console.log(
+      ` ${String(i + 1).padStart(3)}. ${path.basename(o.file)} [${o.sheetName}]  ${o.type}, header row ${o.headerRow + 1}, ${o.rowCount} rows, ${new Date(o.mtime).toLocaleString()}${i === defaultIdx ? "  (default)" : ""}`,
+    );
+  }
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
   try {
-    await main();
-  } catch (err: any) {
-    console.error("❌ ERROR:", err?.message || err);
-    console.log("Press any key to exit...");
-    process.stdin.setRawMode(true);
-    process.stdin.resume();
-    process.stdin.on("data", process.exit.bind(process, 1));
+    const answer = await rl.question(
+      `เลือกหมายเลขไฟล์ ${label} (Enter = ${defaultIdx >= 0 ? defaultIdx + 1 : "ยกเลิก"}): `,
+    );
+    if (!answer.trim()) return fallback;
+    const idx = Number(answer.trim());
+    if (!Number.isInteger(idx) || idx < 1 || idx > options.length)
+      throw new Error(`หมายเลขไฟล์ไม่ถูกต้อง: ${answer}`);
+    return options[idx - 1];
+  } finally {
+    rl.close();
   }
 }
 
-async function main() {
-  console.log(`Working Directory: ${CURRENT_DIR}`);
-  console.log(`Input Directory: ${IN_DIR}`);
+// ไฟล์ input ที่จะใช้: --candidate / --jr ก่อน, ที่เหลือเลือกจาก IN_DIR
+async function selectInputs() {
+  const explicitCandidate = CANDIDATE_FILE_ARG
+    ? await pickExplicitInput(CANDIDATE_FILE_ARG, "CANDIDATE")
+    : undefined;
+  const explicitJr = JR_FILE_ARG
+    ? await pickExplicitInput(JR_FILE_ARG, "JR")
+    : undefined;
+  if (explicitCandidate && explicitJr)
+    return {
+      candidate: explicitCandidate,
+      jr: explicitJr,
+      candidateFiles: [explicitCandidate],
+      jrFiles: [explicitJr],
+    };
+
+  const scan = await pickLatestByType(IN_DIR, MERGE ? MERGE_GLOB : undefined);
+  // --merge ใช้ทุกไฟล์อยู่แล้ว ไม่ต้องถาม
+  const candidate =
+    explicitCandidate ??
+    (MERGE
+      ? scan.candidate
+      : await chooseInput("Candidate", scan.candidateOptions, scan.candidate));
+  const jr =
+    explicitJr ??
+    (MERGE
+      ? scan.jr
+      : await chooseInput(
+          "JR",
+          scan.jrOptions.filter(
+            (o) =>
+              o.file !== candidate?.file || o.sheetName !== candidate.sheetName,
+          ),
+          scan.jr,
+        ));
+  return {
+    candidate,
+    jr,
+    candidateFiles: explicitCandidate
+      ? [explicitCandidate]
+      : scan.candidateFiles,
+    jrFiles: explicitJr ? [explicitJr] : scan.jrFiles,
+  };
+}
+
+// เปลี่ยนชื่อคอลัมน์ตาม alias (คงลำดับคอลัมน์เดิม + __rowNum__ สำหรับ Quarantine)
+function applyHeaderAliases(rows: Record<string, any>[]) {
+  return rows.map((row) => {
+    const out: Record<string, any> = {};
+    for (const [key, value] of Object.entries(row)) {
+      const canonical = canonicalHeader(key);
+      // ชื่อมาตรฐานซ้ำกัน (มีทั้งชื่อจริงและ alias) ใช้ค่าแรกที่ไม่ว่าง
+      if (safeStr(out[canonical]) === "") out[canonical] = value;
+    }
+    Object.defineProperty(out, "__rowNum__", {
+      value: (row as any).__rowNum__,
+    });
+    return out;
+  });
+}
+
+function readInputRows(pick: InputPick) {
+  const wb = readWorkbook(pick.file);
+  return applyHeaderAliases(
+    sheetToObjects(wb, pick.sheetName, { headerRow: pick.headerRow }),
+  );
+}
+
+// คอลัมน์ใน input ที่ไม่ตรงชื่อมาตรฐานและไม่มี alias (ใส่ alias ได้ใน config.headerAliases)
+function findUnmappedHeaders(
+  rows: Record<string, any>[],
+  known: readonly string[],
+) {
+  const knownSet = new Set(known);
+  return buildHeaderOrder(rows).filter(
+    (h) => !knownSet.has(h) && !h.startsWith("__EMPTY"),
+  );
+}
+
+function logUnmappedHeaders(label: string, headers: string[], note: string) {
+  if (!headers.length) return;
+  console.log(
+    `⚠️ ${label}: ${headers.length} คอลัมน์ไม่มีชื่อมาตรฐาน/alias (${note})`,
+  );
+  console.log(`   ${headers.map((h) => `'${h}'`).join(", ")}`);
+}
+
+// =========================================================
+// Merge หลายไฟล์ (--merge): เรียงไฟล์เก่า -> ใหม่, key ซ้ำเลือกผู้ชนะตาม MERGE_BY
+// =========================================================
+type InputSource = {
+  file: string;
+  mtime: number;
+  rows: Record<string, any>[];
+};
+
+function findUpdatedHeader(rows: Record<string, any>[]) {
+  const headers = buildHeaderOrder(rows);
+  return headers.find((h) => UPDATED_HEADER_PATTERN.test(h));
+}
+
+function mergeInputRows(
+  label: string,
+  sources: InputSource[],
+  keyOf: (row: Record<string, any>) => string,
+) {
+  const ordered = [...sources].sort((a, b) => a.mtime - b.mtime);
+  const merged: Record<string, any>[] = [];
+  const winners = new Map<
+    string,
+    { index: number; source: InputSource; updatedAt?: number }
+  >();
+  const conflicts: string[] = [];
+
+  for (const src of ordered) {
+    const updatedHeader =
+      MERGE_BY === "updated" ? findUpdatedHeader(src.rows) : undefined;
+    for (const row of src.rows) {
+      // ให้ Quarantine รู้ว่าแถวมาจากไฟล์ไหน (ไม่ enumerable เหมือน __rowNum__)
+      Object.defineProperty(row, "__file__", { value: src.file });
+      const key = keyOf(row);
+      const updatedAt = updatedHeader
+        ? parseDateValue(row[updatedHeader])?.getTime()
+        : undefined;
+      const prev = key ? winners.get(key) : undefined;
+      if (!prev) {
+        if (key)
+          winners.set(key, { index: merged.length, source: src, updatedAt });
+        merged.push(row);
+        continue;
+      }
+      // ไฟล์ใหม่กว่าชนะ ยกเว้นแถวเดิมมีวันที่อัพเดทใหม่กว่า
+      const incomingWins =
+        updatedAt !== undefined && prev.updatedAt !== undefined
+          ? updatedAt >= prev.updatedAt
+          : true;
+      if (prev.source !== src) {
+        const [win, lose] = incomingWins
+          ? [src, prev.source]
+          : [prev.source, src];
+        const by =
+          updatedAt !== undefined && prev.updatedAt !== undefined
+            ? "updated date"
+            : "file date";
+        conflicts.push(
+          `${key}: ${path.basename(win.file)} ชนะ ${path.basename(lose.file)} (${by})`,
+        );
+      }
+      if (incomingWins) {
+        merged[prev.index] = row;
+        winners.set(key, { index: prev.index, source: src, updatedAt });
+      }
+    }
+  }
+
+  const total = ordered.reduce((n, x) => n + x.rows.length, 0);
+  console.log(
+    `🧩 Merge ${label}: ${ordered.length} files, ${total} rows -> ${merged.length} rows, ${conflicts.length} conflicts`,
+  );
+  for (const x of conflicts) console.log(`   - ${x}`);
+  return merged;
+}
+
+function candidateMergeKey(row: Record<string, any>) {
+  const id = normalizeNationalId(row[CANDIDATE_KEY]);
+  return id ? applicationKey(id, safeStr(row[JR_NO_ALIAS])) : "";
+}
+
+function jrMergeKey(row: Record<string, any>) {
+  return safeStr(row[JR_KEY] ?? row[JR_NO_ALIAS]);
+}
+
+function readInputSources(picks: InputPick[]) {
+  return picks.map((pick): InputSource => {
+    const rows = readInputRows(pick);
+    console.log(
+      ` - ${path.basename(pick.file)} [${pick.sheetName}] (header row ${pick.headerRow + 1}, ${rows.length} rows)`,
+    );
+    return { file: pick.file, mtime: pick.mtime, rows };
+  });
+}
+
+// =========================================================
+// BACKUP / ROLLBACK (output/backups/<name>.<yyyyMMdd-HHmmss>.xlsx)
+// =========================================================
+function backupStamp(d: Date) {
+  const p2 = (n: number) => String(n).padStart(2, "0");
+  return (
+    `${d.getFullYear()}${p2(d.getMonth() + 1)}${p2(d.getDate())}-` +
+    `${p2(d.getHours())}${p2(d.getMinutes())}${p2(d.getSeconds())}`
+  );
+}
+
+async function listBackups(outFile: string, backupDir: string) {
+  if (!(await fileExists(backupDir))) return [];
+  const ext = path.extname(outFile);
+  const prefix = path.basename(outFile, ext) + ".";
+  const names = await fsp.readdir(backupDir);
+  return names
+    .filter((n) => n.startsWith(prefix) && n.endsWith(ext))
+    .sort()
+    .reverse()
+    .map((n) => path.join(backupDir, n));
+}
+
+// copy ไฟล์ output ปัจจุบันไป backups/ แล้วลบไฟล์เก่าเกิน retention
+async function backupOutputFile(
+  outFile: string,
+  backupDir: string,
+  retention: number,
+) {
+  if (retention <= 0 || !(await fileExists(outFile))) return undefined;
+  await ensureDir(backupDir);
+  const ext = path.extname(outFile);
+  const base = `${path.basename(outFile, ext)}.${backupStamp(new Date())}`;
+  let backupPath = path.join(backupDir, base + ext);
+  for (let i = 2; await fileExists(backupPath); i++)
+    backupPath = path.join(backupDir, `${base}_${i}${ext}`);
+  await fsp.copyFile(outFile, backupPath);
+
+  const backups = await listBackups(outFile, backupDir);
+  for (const old of backups.slice(retention)) await fsp.unlink(old);
+  return backupPath;
+}
+
+async function chooseBackup(backups: string[]) {
+  const explicit = getArg("--backup") ?? POSITIONAL_ARGS[1];
+  if (explicit && !explicit.startsWith("--")) {
+    const idx = Number(explicit);
+    if (Number.isInteger(idx) && idx >= 1 && idx <= backups.length)
+      return backups[idx - 1];
+    const byName = backups.find(
+      (b) => path.basename(b) === path.basename(explicit),
+    );
+    if (byName) return byName;
+    throw new Error(`ไม่พบ backup "${explicit}"`);
+  }
+  if (!process.stdin.isTTY || NON_INTERACTIVE) return undefined;
+
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  try {
+    const answer = await rl.question(
+      "เลือกหมายเลข backup ที่จะ restore (Enter = ยกเลิก): ",
+    );
+    const idx = Number(answer.trim());
+    if (!answer.trim()) return undefined;
+    if (!Number.isInteger(idx) || idx < 1 || idx > backups.length)
+      throw new Error(`หมายเลข backup ไม่ถูกต้อง: ${answer}`);
+    return backups[idx - 1];
+  } finally {
+    rl.close();
+  }
+}
+
+async function rollback() {
   console.log(`Output File: ${OUT_FILE}`);
+  console.log(`Backup Directory: ${BACKUP_DIR}`);
+
+  const backups = await listBackups(OUT_FILE, BACKUP_DIR);
+  if (!backups.length) throw new Error(`ไม่พบไฟล์ backup ใน ${BACKUP_DIR}`);
+
+  console.log("📦 Backups (ใหม่สุดก่อน):");
+  for (const [i, b] of backups.entries()) {
+    const stat = await fsp.stat(b);
+    console.log(
+      ` ${String(i + 1).padStart(3)}. ${path.basename(b)}  (${Math.round(stat.size / 1024)} KB)`,
+    );
+  }
+
+  const chosen = await chooseBackup(backups);
+  if (!chosen) {
+    console.log(
+      "ไม่ได้เลือก backup — ระบุด้วย rollback <หมายเลข> หรือ --backup <ชื่อไฟล์>",
+    );
+    return;
+  }
+
+  const lockPath = OUT_FILE + ".lock";
+  await acquireLock(lockPath);
+  try {
+    // เก็บไฟล์ปัจจุบันไว้ก่อน เผื่อต้อง rollback กลับ
+    const current = await backupOutputFile(
+      OUT_FILE,
+      BACKUP_DIR,
+      Math.max(CONFIG.backupRetention, backups.length + 1),
+    );
+    await replaceFileAtomic(OUT_FILE, (tmp) => fsp.copyFile(chosen, tmp));
+    console.log(`✅ Restored: ${path.basename(chosen)} -> ${OUT_FILE}`);
+    if (current) console.log(` - Previous file saved as: ${current}`);
+  } finally {
+    await releaseLock(lockPath);
+  }
+}
+
+// ลบ lock ด้วยมือ (เช่นเครื่องที่ถือ lock ดับไปกลางทาง)
+async function unlock() {
+  const lockPath = OUT_FILE + ".lock";
+  const info = await readLockInfo(lockPath);
+  if (!info) {
+    console.log(`ไม่มี lock: ${lockPath}`);
+    return;
+  }
+  console.log(`🔒 Lock: ${lockPath}`);
+  for (const key of ["user", "host", "pid", "locked_at", "heartbeat"])
+    console.log(` - ${key.padEnd(9)}: ${info[key] || "?"}`);
+  const stale = staleLockReason(info);
+  console.log(` - status   : ${stale ? `ค้าง (${stale})` : "ยังมี heartbeat"}`);
+  // lock ที่ยังมี heartbeat = มีคนรันอยู่จริง -> ต้องยืนยันหรือใช้ --force
+  if (!stale && !FORCE) {
+    if (!process.stdin.isTTY || NON_INTERACTIVE)
+      throw new CombineError(
+        "lock ยังมี heartbeat (มีคนกำลังรันอยู่) — ถ้าแน่ใจให้ใช้ unlock --force",
+        EXIT_CODE.error,
+      );
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout,
+    });
+    try {
+      const answer = await rl.question(
+        "lock ยังมี heartbeat (มีคนกำลังรันอยู่) ยืนยันลบ? (y/N): ",
+      );
+      if (answer.trim().toLowerCase() !== "y") {
+        console.log("ยกเลิก ไม่ได้ลบ lock");
+        return;
+      }
+    } finally {
+      rl.close();
+    }
+  }
+  await fsp.rm(lockPath, { force: true });
+  console.log("✅ ลบ lock แล้ว");
+}
 
+// สรุปผลการรัน (--summary-json) สำหรับ Task Scheduler / monitoring
+type RunSummary = {
+  command: string;
+  status: "ok" | "warning" | "error";
+  exitCode: number;
+  error?: string;
+  dryRun: boolean;
+  startedAt: string;
+  finishedAt?: string;
+  files: {
+    candidate?: string;
+    jr?: string;
+    output: string;
+    backup?: string;
+    dryRunReport?: string;
+    dashboard?: string;
+    merged?: { candidate: string[]; jr: string[] };
+  };
+  unmappedHeaders?: { candidate: string[]; jr: string[] };
+  stats?: Record<string, number>;
+};
+
+async function writeSummaryJson(filePath: string, summary: RunSummary) {
+  try {
+    await ensureDir(path.dirname(path.resolve(filePath)));
+    await fsp.writeFile(filePath, JSON.stringify(summary, null, 2) + "\n");
+  } catch (e: any) {
+    console.error(`⚠️ เขียน summary JSON ไม่สำเร็จ: ${e?.message || e}`);
+  }
+}
+
+// validate: ตรวจไฟล์ใน input อย่างเดียว ไม่แตะไฟล์ tracking
+async function validate(summary: RunSummary) {
+  console.log(`Input Directory: ${IN_DIR}`);
+  console.log(`Config File: ${CONFIG_FILE ?? "(default)"}`);
   await ensureDir(IN_DIR);
-  await ensureDir(path.dirname(OUT_FILE));
+  const { candIncoming, quarantined, issues, jrIncoming } =
+    await loadInputs(summary);
+
+  const MAX_LINES = 50;
+  console.log("-----------------------------------------");
+  for (const q of quarantined.slice(0, MAX_LINES))
+    console.log(
+      `🚫 Candidate row ${q.sourceRow}: ${q.reason} (${safeStr(q.row[CANDIDATE_KEY])})`,
+    );
+  for (const x of issues.slice(0, MAX_LINES))
+    console.log(
+      `⚠️ ${x.source} row ${x.sourceRow} [${x.key}] ${x.column} = "${x.value}": ${x.issue}`,
+    );
+  if (quarantined.length > MAX_LINES || issues.length > MAX_LINES)
+    console.log(`... แสดง ${MAX_LINES} รายการแรกของแต่ละประเภท`);
+  console.log("-----------------------------------------");
+  console.log(` - 👤 Valid Candidate Rows: ${candIncoming.length}`);
+  console.log(` - 📄 JR Rows             : ${jrIncoming.length}`);
+  console.log(` - 🚫 Quarantined         : ${quarantined.length}`);
+  console.log(` - ⚠️ Validation Issues   : ${issues.length}`);
+
+  summary.stats = {
+    candidateRows: candIncoming.length,
+    jrRows: jrIncoming.length,
+    quarantined: quarantined.length,
+    validationIssues: issues.length,
+  };
+  if (quarantined.length || issues.length) {
+    summary.status = "warning";
+    summary.exitCode = EXIT_CODE.validation;
+  }
+}
 
-  const { candidateFile, jrFile } = await pickLatestByType(IN_DIR);
+// dashboard: สร้าง HTML จากไฟล์ tracking ที่มีอยู่
+function dashboard(summary: RunSummary) {
+  if (!fs.existsSync(OUT_FILE))
+    throw new CombineError(`ไม่พบไฟล์ ${OUT_FILE}`, EXIT_CODE.noInput);
+  const htmlPath = path.resolve(
+    DASHBOARD_FILE ??
+      path.join(path.dirname(OUT_FILE), "recruitment-dashboard.html"),
+  );
+  generateDashboard(OUT_FILE, htmlPath, SHEET_CANDIDATE);
+  summary.files.dashboard = htmlPath;
+}
 
-  if (!candidateFile)
-    throw new Error(
-      `ไม่พบไฟล์ Candidate (.xlsx/.xls) ที่มีคอลัมน์ "${CANDIDATE_KEY}" ในโฟลเดอร์ ${IN_DIR}`,
+function printHelp() {
+  console.log(`rec-cx-combine [command] [options]
+
+Commands:
+  combine            (default) รวม export ใน input เข้าไฟล์ tracking
+  report             เหมือน combine --dry-run: เขียน diff report ไม่แตะไฟล์ tracking
+  validate           ตรวจไฟล์ใน input (บัตรประชาชน, เบอร์, email, วันที่) อย่างเดียว
+  dashboard          สร้าง HTML dashboard จากไฟล์ tracking
+  rollback [n]       restore ไฟล์ tracking จาก backup (1 = ล่าสุด)
+  unlock             แสดงผู้ถือ lock แล้วลบ lock file
+
+Options:
+  --in <dir>             โฟลเดอร์ input (default ./input)
+  --out <file>           ไฟล์ tracking (default ./output/recruitment-tracking.xlsx)
+  --candidate <file>     ไฟล์ Candidate ที่จะใช้ (ไม่ auto-detect)
+  --jr <file>            ไฟล์ JR ที่จะใช้ (ไม่ auto-detect)
+  --config <file>        config.json
+  --dry-run              combine โดยไม่เขียนไฟล์ tracking
+  --report-out <file>    ไฟล์ diff report ของ dry-run / report
+  --dashboard            สร้าง dashboard หลัง combine
+  --dashboard-out <file> ไฟล์ HTML ของ dashboard
+  --merge [glob]         รวมทุกไฟล์ Candidate / JR ใน input (หรือเฉพาะชื่อที่ตรง glob)
+  --merge-by <mode>      key ซ้ำข้ามไฟล์: file (ไฟล์ใหม่กว่าชนะ, default) | updated
+  --watch                รอไฟล์ใหม่ใน input แล้ว combine อัตโนมัติ
+  --debounce <ms>        ระยะรอของ --watch (default 3000)
+  --backup <file>        ไฟล์ backup สำหรับ rollback
+  --summary-json <file>  เขียนสรุปผลเป็น JSON
+  --force                unlock: ลบ lock ที่ยังมี heartbeat โดยไม่ถาม
+  --no-pause, --ci       ไม่รอกดปุ่ม / ไม่ถามเลือกไฟล์หรือเมื่อเกิด error
+  -h, --help             แสดงข้อความนี้
+
+Exit codes: 0 OK, 1 error, 2 no input, 3 lock timeout,
+            4 validation issues, 5 output not written`);
+}
+
+function newRunSummary(): RunSummary {
+  return {
+    command: COMMAND,
+    status: "ok",
+    exitCode: EXIT_CODE.ok,
+    dryRun: DRY_RUN,
+    startedAt: new Date().toISOString(),
+    files: { output: OUT_FILE },
+  };
+}
+
+function failRunSummary(summary: RunSummary, err: any) {
+  summary.status = "error";
+  summary.exitCode =
+    err instanceof CombineError ? err.exitCode : EXIT_CODE.error;
+  summary.error = String(err?.message || err);
+  console.error("❌ ERROR:", summary.error);
+}
+
+async function finishRunSummary(summary: RunSummary) {
+  summary.finishedAt = new Date().toISOString();
+  if (SUMMARY_JSON_FILE) await writeSummaryJson(SUMMARY_JSON_FILE, summary);
+}
+
+// combine 1 รอบ + dashboard (ถ้าสั่ง)
+async function combineOnce(summary: RunSummary) {
+  await main(summary);
+  if (DASHBOARD_FILE && !DRY_RUN) {
+    generateDashboard(OUT_FILE, path.resolve(DASHBOARD_FILE), SHEET_CANDIDATE);
+    summary.files.dashboard = path.resolve(DASHBOARD_FILE);
+  }
+}
+
+// =========================================================
+// Watch mode: debounce event ใน IN_DIR -> combine เมื่อมีไฟล์ใหม่กว่าเดิม
+// =========================================================
+async function inputSignature() {
+  const { candidate, jr } = await selectInputs();
+  if (!candidate || !jr) return undefined;
+  return [candidate, jr]
+    .map((x) => `${x.file}#${x.sheetName}@${x.mtime}`)
+    .join("|");
+}
+
+async function watch() {
+  await ensureDir(IN_DIR);
+  console.log(`👀 Watch mode: ${IN_DIR} (debounce ${WATCH_DEBOUNCE_MS} ms)`);
+  if (DASHBOARD_FILE) console.log(` - Dashboard: ${DASHBOARD_FILE}`);
+
+  let cycle = 0;
+  let lastSignature: string | undefined;
+  let running = false;
+  let rerun = false;
+
+  const runCycle = async (trigger: string) => {
+    if (running) {
+      rerun = true;
+      return;
+    }
+    running = true;
+    try {
+      const signature = await inputSignature().catch(() => undefined);
+      if (!signature) {
+        console.log(`⏸️ [${trigger}] ยังไม่มีไฟล์ Candidate + JR ครบ`);
+        return;
+      }
+      if (signature === lastSignature) {
+        console.log(`⏸️ [${trigger}] ไม่มีไฟล์ใหม่ ข้าม`);
+        return;
+      }
+      cycle++;
+      const started = Date.now();
+      console.log("=========================================");
+      console.log(
+        `🔁 Cycle ${cycle} (${trigger}) ${new Date().toLocaleString()}`,
+      );
+      const summary = newRunSummary();
+      try {
+        await combineOnce(summary);
+        lastSignature = signature;
+      } catch (err) {
+        failRunSummary(summary, err);
+      }
+      await finishRunSummary(summary);
+      const secs = ((Date.now() - started) / 1000).toFixed(1);
+      console.log(
+        `${summary.status === "error" ? "❌" : "✅"} Cycle ${cycle} ${summary.status} (${secs}s) — รอไฟล์ใหม่...`,
+      );
+    } finally {
+      running = false;
+      if (rerun) {
+        rerun = false;
+        void runCycle("queued");
+      }
+    }
+  };
+
+  await runCycle("start");
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const watcher = fs.watch(IN_DIR, (_event, filename) => {
+    const name = String(filename ?? "");
+    // ไฟล์ชั่วคราวของ Excel (~$xxx.xlsx) ไม่นับ
+    if (name.startsWith("~$")) return;
+    clearTimeout(timer);
+    timer = setTimeout(
+      () => void runCycle(name || "change"),
+      WATCH_DEBOUNCE_MS,
     );
-  if (!jrFile)
-    throw new Error(
-      `ไม่พบไฟล์ JR (.xlsx/.xls) ที่มีคอลัมน์ "${JR_KEY}" หรือ "${JR_NO_ALIAS}" ในโฟลเดอร์ ${IN_DIR}`,
+  });
+  await new Promise<void>((resolve) => {
+    process.once("SIGINT", () => {
+      clearTimeout(timer);
+      watcher.close();
+      console.log("👋 Stop watching");
+      resolve();
+    });
+  });
+}
+
+async function mainWrapper() {
+  const summary = newRunSummary();
+  try {
+    if (HELP) printHelp();
+    else if (CONFIG_ERROR) throw CONFIG_ERROR;
+    else if (POSITIONAL_ARGS.length > (COMMAND === "rollback" ? 2 : 1))
+      throw new Error(
+        `argument เกิน: ${POSITIONAL_ARGS.slice(1).join(" ")} (ดูวิธีใช้ด้วย --help)`,
+      );
+    else if (COMMAND === "rollback") await rollback();
+    else if (COMMAND === "unlock") await unlock();
+    else if (COMMAND === "validate") await validate(summary);
+    else if (COMMAND === "dashboard") dashboard(summary);
+    else if (COMMAND === "combine" && WATCH) await watch();
+    else if (COMMAND === "combine" || COMMAND === "report")
+      await combineOnce(summary);
+    else
+      throw new Error(
+        `ไม่รู้จักคำสั่ง "${COMMAND}" (ดูคำสั่งทั้งหมดด้วย --help)`,
+      );
+  } catch (err: any) {
+    failRunSummary(summary, err);
+  }
+  // watch เขียน summary เองทุกรอบ
+  if (!(COMMAND === "combine" && WATCH)) await finishRunSummary(summary);
+  process.exitCode = summary.exitCode;
+
+  // double-click จาก Explorer: ค้างหน้าจอไว้ให้อ่าน error ก่อนปิด
+  if (summary.status === "error" && !NON_INTERACTIVE && process.stdin.isTTY) {
+    console.log("Press any key to exit...");
+    process.stdin.setRawMode(true);
+    process.stdin.resume();
+    process.stdin.on("data", () => process.exit(summary.exitCode));
+  }
+}
+
+// เลือกไฟล์ล่าสุดใน IN_DIR แล้วอ่าน + validate (ใช้ร่วมกันระหว่าง combine / validate)
+async function loadInputs(summary: RunSummary) {
+  if (MERGE_BY !== "file" && MERGE_BY !== "updated")
+    throw new Error(`--merge-by ต้องเป็น file | updated (ได้ "${MERGE_BY}")`);
+  const { candidate, jr, candidateFiles, jrFiles } = await selectInputs();
+
+  summary.files.candidate = candidate?.file;
+  summary.files.jr = jr?.file;
+  if (!candidate)
+    throw new CombineError(
+      `ไม่พบไฟล์ Candidate (${INPUT_EXTENSIONS.join("/")}) ที่มีคอลัมน์ "${CANDIDATE_KEY}" ในโฟลเดอร์ ${IN_DIR}`,
+      EXIT_CODE.noInput,
+    );
+  if (!jr)
+    throw new CombineError(
+      `ไม่พบไฟล์ JR (${INPUT_EXTENSIONS.join("/")}) ที่มีคอลัมน์ "${JR_KEY}" หรือ "${JR_NO_ALIAS}" ในโฟลเดอร์ ${IN_DIR}`,
+      EXIT_CODE.noInput,
     );
 
-  const candParsed = readAllRowsFromFirstSheet(candidateFile);
-  const jrParsed = readAllRowsFromFirstSheet(jrFile);
-  const candIncoming = candParsed.rows.map(toCandidateBaseRow);
-  const jrIncoming = jrParsed.rows;
+  let candRows: Record<string, any>[];
+  let jrIncoming: Record<string, any>[];
+  if (MERGE) {
+    summary.files.merged = {
+      candidate: candidateFiles.map((x) => x.file),
+      jr: jrFiles.map((x) => x.file),
+    };
+    console.log(`✅ Merge input (by ${MERGE_BY}):`);
+    console.log(" - Candidate files:");
+    const candSources = readInputSources(candidateFiles);
+    console.log(" - JR files:");
+    const jrSources = readInputSources(jrFiles);
+    candRows = mergeInputRows("Candidate", candSources, candidateMergeKey);
+    jrIncoming = mergeInputRows("JR", jrSources, jrMergeKey);
+  } else {
+    candRows = readInputRows(candidate);
+    jrIncoming = readInputRows(jr);
+
+    console.log("✅ Auto-detect input:");
+    console.log(" - Candidate:", candidate.file);
+    console.log(" - JR       :", jr.file);
+    console.log(
+      ` - Candidate sheet: '${candidate.sheetName}', header row ${candidate.headerRow + 1}`,
+    );
+    console.log(
+      ` - JR sheet       : '${jr.sheetName}', header row ${jr.headerRow + 1}`,
+    );
+  }
 
-  console.log("✅ Auto-detect input:");
-  console.log(" - Candidate:", candidateFile);
-  console.log(" - JR       :", jrFile);
-  console.log(` - Candidate header row: ${candParsed.headerRow + 1}`);
-  console.log(` - JR header row       : ${jrParsed.headerRow + 1}`);
+  const {
+    valid: candIncoming,
+    quarantined,
+    issues,
+  } = partitionCandidateRows(candRows);
+  // รวมแถวที่ถูก quarantine ด้วย (ยังอยู่ใน export แค่รหัสผิด)
+  const incomingIds = new Set(
+    candRows.map((r) => normalizeNationalId(r[CANDIDATE_KEY])).filter(Boolean),
+  );
 
   for (const r of jrIncoming) {
     if (r[JR_KEY] !== undefined && r[JR_NO_ALIAS] === undefined) {
@@ -790,6 +3419,52 @@ async function main() {
     }
   }
 
+  const unmappedCandidate = findUnmappedHeaders(candRows, [
+    ...CANDIDATE_BASE_COLS,
+    JR_NO_ALIAS,
+  ]);
+  const unmappedJr = findUnmappedHeaders(jrIncoming, [
+    JR_KEY,
+    JR_NO_ALIAS,
+    ...CANDIDATE_JR_LOOKUP_COLS,
+  ]);
+  logUnmappedHeaders("Candidate", unmappedCandidate, "ไม่ได้นำเข้า");
+  logUnmappedHeaders("JR", unmappedJr, `เก็บใน ${SHEET_JR} ตามชื่อเดิม`);
+  summary.unmappedHeaders = { candidate: unmappedCandidate, jr: unmappedJr };
+
+  const jrHeaderOrder = buildHeaderOrder(jrIncoming);
+  issues.push(...normalizeJRRows(jrIncoming, jrHeaderOrder));
+
+  return {
+    candidateFile: candidate.file,
+    candIncoming,
+    quarantined,
+    issues,
+    incomingIds,
+    jrIncoming,
+    jrHeaderOrder,
+  };
+}
+
+async function main(summary: RunSummary) {
+  console.log(`Working Directory: ${CURRENT_DIR}`);
+  console.log(`Input Directory: ${IN_DIR}`);
+  console.log(`Output File: ${OUT_FILE}`);
+  console.log(`Config File: ${CONFIG_FILE ?? "(default)"}`);
+
+  await ensureDir(IN_DIR);
+  await ensureDir(path.dirname(OUT_FILE));
+
+  const {
+    candidateFile,
+    candIncoming,
+    quarantined,
+    issues,
+    incomingIds,
+    jrIncoming,
+    jrHeaderOrder,
+  } = await loadInputs(summary);
+
   if (await fileExists(OUT_FILE)) {
     try {
       const outWb = readWorkbook(OUT_FILE);
@@ -801,53 +3476,182 @@ async function main() {
   }
 
   const jrFinal = jrIncoming;
-  const jrHeaderOrder = buildHeaderOrder(jrFinal);
 
-  const candidateHeaderOrder = [...CANDIDATE_OUTPUT_HEADER_ORDER].slice(
-    0,
-    CANDIDATE_MAX_COLUMNS,
-  );
+  const candidateHeaderOrder = [...CANDIDATE_OUTPUT_HEADER_ORDER];
 
   const lockPath = OUT_FILE + ".lock";
 
-  await acquireLock(lockPath);
+  // dry-run อ่านอย่างเดียว ไม่ต้องรอ lock
+  if (!DRY_RUN) await acquireLock(lockPath);
   try {
     const wb = new ExcelJS.Workbook();
     const outFileAlreadyExists = await fileExists(OUT_FILE);
 
+    let outFingerprint: FileFingerprint = null;
     if (outFileAlreadyExists) {
-      await wb.xlsx.readFile(OUT_FILE);
+      const { buffer, fingerprint } = await readFileWithFingerprint(OUT_FILE);
+      outFingerprint = fingerprint;
+      await wb.xlsx.load(buffer as any);
     }
 
     let wsCandidate = wb.getWorksheet(SHEET_CANDIDATE);
     if (!wsCandidate) wsCandidate = wb.addWorksheet(SHEET_CANDIDATE);
 
+    const jrBefore = readJRSheetRecords(wb);
+    const jrStats = upsertJRSheetWithExcelJS(wb, jrHeaderOrder, jrFinal);
+    const jrChanges = diffJRRows(jrBefore, jrHeaderOrder, jrFinal);
+
     const stats = upsertCandidateSheetWithExcelJS(
       wsCandidate,
       candIncoming,
       candidateHeaderOrder,
+      jrStats.headers,
+    );
+    const runAt = toExcelDateTime(new Date());
+    const missingStats = handleMissingCandidates(
+      wb,
+      wsCandidate,
+      stats.lastDataRow,
+      stats.lastCol,
+      candidateHeaderOrder,
+      jrStats.headers,
+      incomingIds,
+      runAt,
+    );
+    stats.lastDataRow = missingStats.lastDataRow;
+    stats.lastCol = missingStats.lastCol;
+    const jrRecords = readJRSheetRecords(wb);
+    writeCandidateFormulaResults(
+      wsCandidate,
+      stats.lastDataRow,
+      candidateHeaderOrder,
+      jrRecords,
+    );
+    applyCandidateFormattingWithExcelJS(
+      wsCandidate,
+      stats.lastDataRow,
+      stats.lastCol,
+      candidateHeaderOrder,
     );
-    applyCandidateFormattingWithExcelJS(wsCandidate, stats.lastDataRow);
 
-    rewriteJRSheetWithExcelJS(wb, jrHeaderOrder, jrFinal);
+    rewriteQuarantineSheet(wb, quarantined, candidateFile);
+    rewriteValidationSheet(wb, issues);
 
-    await wb.xlsx.writeFile(OUT_FILE);
+    const dataIssues = collectDataIssues(
+      wsCandidate,
+      stats.lastDataRow,
+      candidateHeaderOrder,
+      jrRecords,
+    );
+    rewriteDataIssuesSheet(wb, dataIssues);
+
+    let changeLogRows = 0;
+    let jrHistoryRows = 0;
+    if (DRY_RUN) {
+      await writeDryRunReport(
+        DRY_RUN_REPORT_FILE,
+        stats,
+        jrChanges,
+        quarantined,
+        issues,
+        dataIssues,
+        missingStats.missing,
+      );
+      summary.files.dryRunReport = DRY_RUN_REPORT_FILE;
+    } else {
+      changeLogRows = appendChangeLog(
+        wb,
+        stats.cellChanges,
+        runAt,
+        currentUser(),
+      );
+      jrHistoryRows = appendJRHistory(wb, jrBefore, jrFinal, runAt);
+      await assertFileUnchanged(OUT_FILE, outFingerprint);
+      const backupPath = await backupOutputFile(
+        OUT_FILE,
+        BACKUP_DIR,
+        CONFIG.backupRetention,
+      );
+      if (backupPath) console.log(` - Backup: ${backupPath}`);
+      summary.files.backup = backupPath;
+      await replaceFileAtomic(OUT_FILE, (tmp) => wb.xlsx.writeFile(tmp));
+    }
 
     // ===================================
     // 📊 Enhanced Statistics Logging
     // ===================================
-    console.log("🎉 DONE");
-    console.log(" - Fact file:", OUT_FILE);
-    console.log(` - Sheets: ${SHEET_CANDIDATE}, ${SHEET_JR}`);
+    if (DRY_RUN) {
+      console.log("🧪 DRY RUN (ไม่มีการเขียนไฟล์ tracking)");
+      console.log(" - Diff report:", DRY_RUN_REPORT_FILE);
+    } else {
+      console.log("🎉 DONE");
+      console.log(" - Fact file:", OUT_FILE);
+    }
+    const sheets = [SHEET_CANDIDATE, SHEET_JR];
+    // dry run ไม่บันทึก Change_Log / JR_History
+    if (!DRY_RUN) sheets.push(SHEET_CHANGE_LOG, SHEET_JR_HISTORY);
+    if (quarantined.length) sheets.push(SHEET_QUARANTINE);
+    if (issues.length) sheets.push(SHEET_VALIDATION);
+    if (dataIssues.length) sheets.push(SHEET_DATA_ISSUES);
+    if (missingStats.archived) sheets.push(SHEET_CANDIDATE_ARCHIVE);
+    console.log(` - Sheets: ${sheets.join(", ")}`);
     console.log("-----------------------------------------");
     console.log("📊 Statistics:");
-    console.log(` - 👤 Existing Candidates : ${stats.originalCount}`);
+    console.log(` - 👤 Existing Rows       : ${stats.originalCount}`);
     console.log(` - 🆕 New Inserted        : ${stats.inserted}`);
     console.log(` - 🔄 Updated             : ${stats.updated}`);
     console.log(` - 📈 Total Candidate Rows: ${stats.lastDataRow - 1}`); // Minus header
-    console.log(` - 📄 Total JR Rows       : ${jrFinal.length}`);
+    console.log(` - 📄 Total JR Rows       : ${jrStats.total}`);
+    console.log(
+      `   (🆕 ${jrStats.added} added, 🔄 ${jrStats.updated} updated, 💤 ${jrStats.notInExport} not in latest export)`,
+    );
+    console.log(
+      ` - 👻 Not In Source       : ${missingStats.missing.length} (policy: ${CONFIG.missingCandidatePolicy})`,
+    );
+    if (missingStats.archived)
+      console.log(
+        `   (📦 ${missingStats.archived} moved to ${SHEET_CANDIDATE_ARCHIVE})`,
+      );
+    if (missingStats.returned)
+      console.log(
+        `   (↩️ ${missingStats.returned} back in source, flag cleared)`,
+      );
+    console.log(` - 🚫 Quarantined         : ${quarantined.length}`);
+    console.log(` - ⚠️ Validation Issues   : ${issues.length}`);
+    console.log(` - ✏️ Changed Cells       : ${stats.cellChanges.length}`);
+    if (!DRY_RUN) {
+      console.log(` - 📝 Change_Log Rows     : ${changeLogRows}`);
+      console.log(` - 🕓 JR_History Rows     : ${jrHistoryRows}`);
+    }
+    console.log(` - 🔀 JR Changes          : ${jrChanges.length}`);
+    logDataIssueSummary(dataIssues);
     console.log("-----------------------------------------");
+
+    summary.stats = {
+      existing: stats.originalCount,
+      inserted: stats.inserted,
+      updated: stats.updated,
+      totalCandidateRows: stats.lastDataRow - 1,
+      totalJRRows: jrStats.total,
+      jrAdded: jrStats.added,
+      jrUpdated: jrStats.updated,
+      jrNotInExport: jrStats.notInExport,
+      quarantined: quarantined.length,
+      validationIssues: issues.length,
+      changedCells: stats.cellChanges.length,
+      changeLogRows,
+      jrHistoryRows,
+      jrChanges: jrChanges.length,
+      dataIssues: dataIssues.length,
+      notInSource: missingStats.missing.length,
+      archived: missingStats.archived,
+    };
+    // เขียนไฟล์สำเร็จ แต่มีแถวถูก quarantine / ค่าไม่ผ่าน validation
+    if (quarantined.length || issues.length) {
+      summary.status = "warning";
+      summary.exitCode = EXIT_CODE.validation;
+    }
   } finally {
-    await releaseLock(lockPath);
+    if (!DRY_RUN) await releaseLock(lockPath);
   }
 }